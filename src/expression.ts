@@ -0,0 +1,706 @@
+import * as math from 'mathjs';
+
+// Fitted models as expression trees. Each solver builds one tree per result, and the result
+// text, the Desmos and LaTeX forms and the code exports are all rendered from it
+
+export interface NumberNode {
+  kind: 'number';
+  value: number;
+  // Unsigned fraction shown in place of the decimal; exact fractions are also used in code
+  fraction?: { numerator: string; denominator: string; exact: boolean };
+  // Decimal places shown in text and LaTeX, 4 by default; code always carries the full value
+  precision?: number;
+  // An angle in radians that text and LaTeX show in degrees
+  degrees?: boolean;
+}
+
+export interface SymbolNode {
+  kind: 'symbol';
+  name: string;
+}
+
+export interface SumNode {
+  kind: 'sum';
+  terms: Expression[];
+}
+
+export interface ProductNode {
+  kind: 'product';
+  factors: Expression[];
+}
+
+export interface QuotientNode {
+  kind: 'quotient';
+  numerator: Expression;
+  denominator: Expression;
+}
+
+export interface PowerNode {
+  kind: 'power';
+  base: Expression;
+  exponent: Expression;
+}
+
+export interface NegateNode {
+  kind: 'negate';
+  operand: Expression;
+}
+
+// Function applied to its arguments, by mathjs name except 'ln' for the natural logarithm
+export interface CallNode {
+  kind: 'call';
+  name: string;
+  args: Expression[];
+}
+
+// One expression per interval of x; the first interval is closed, the rest are (from, to]
+export interface PiecewiseNode {
+  kind: 'piecewise';
+  pieces: Array<{ expression: Expression; from: NumberNode; to: NumberNode }>;
+}
+
+export type Expression =
+  | NumberNode
+  | SymbolNode
+  | SumNode
+  | ProductNode
+  | QuotientNode
+  | PowerNode
+  | NegateNode
+  | CallNode
+  | PiecewiseNode;
+
+// lhs = rhs, where functions have the form y = f(x) and curves F(x, y) = c
+export interface ModelEquation {
+  lhs: Expression;
+  rhs: Expression;
+}
+
+export type ExpressionFormat =
+  | 'text'
+  | 'desmos'
+  | 'latex'
+  | 'mathjs'
+  | 'python'
+  | 'excel'
+  | 'javascript';
+
+type CodeLanguage = 'mathjs' | 'python' | 'excel' | 'javascript';
+
+export function num(value: number, display: Omit<NumberNode, 'kind' | 'value'> = {}): NumberNode {
+  return { kind: 'number', value, ...display };
+}
+
+export function symbol(name: string): SymbolNode {
+  return { kind: 'symbol', name };
+}
+
+export function sum(...terms: Expression[]): Expression {
+  const flat = terms.flatMap(term => (term.kind === 'sum' ? term.terms : [term]));
+  return flat.length === 1 ? flat[0] : { kind: 'sum', terms: flat };
+}
+
+export function product(...factors: Expression[]): Expression {
+  const flat = factors.flatMap(factor => (factor.kind === 'product' ? factor.factors : [factor]));
+  return flat.length === 1 ? flat[0] : { kind: 'product', factors: flat };
+}
+
+export function quotient(numerator: Expression, denominator: Expression): Expression {
+  return { kind: 'quotient', numerator, denominator };
+}
+
+export function power(base: Expression, exponent: Expression | number): Expression {
+  return {
+    kind: 'power',
+    base,
+    exponent: typeof exponent === 'number' ? num(exponent) : exponent,
+  };
+}
+
+export function negate(operand: Expression): Expression {
+  return { kind: 'negate', operand };
+}
+
+export function call(name: string, ...args: Expression[]): Expression {
+  return { kind: 'call', name, args };
+}
+
+export function piecewise(pieces: PiecewiseNode['pieces']): Expression {
+  return { kind: 'piecewise', pieces };
+}
+
+export function equation(lhs: Expression, rhs: Expression): ModelEquation {
+  return { lhs, rhs };
+}
+
+// Converts a parsed mathjs expression; substitute supplies values for symbols such as parameters
+export function fromMathNode(
+  node: math.MathNode,
+  substitute: (name: string) => Expression | undefined = () => undefined
+): Expression {
+  const convert = (child: math.MathNode) => fromMathNode(child, substitute);
+
+  if (math.isParenthesisNode(node)) {
+    return convert(node.content);
+  }
+  if (math.isConstantNode(node) && typeof node.value === 'number') {
+    return num(node.value);
+  }
+  if (math.isSymbolNode(node)) {
+    const substituted = substitute(node.name);
+    if (substituted) return substituted;
+    // mathjs spells its constants several ways
+    if (node.name === 'E') return symbol('e');
+    if (node.name === 'PI') return symbol('pi');
+    if (node.name === 'tau') return product(num(2), symbol('pi'));
+    return symbol(node.name);
+  }
+  if (math.isFunctionNode(node)) {
+    const args = node.args.map(convert);
+    return call(node.fn.name === 'log' && args.length === 1 ? 'ln' : node.fn.name, ...args);
+  }
+  if (math.isOperatorNode(node)) {
+    const args = node.args.map(convert);
+    switch (node.fn) {
+      case 'add':
+        return sum(...args);
+      case 'subtract':
+        return sum(args[0], negate(args[1]));
+      case 'multiply':
+        return product(...args);
+      case 'divide':
+        return quotient(args[0], args[1]);
+      case 'pow':
+        return power(args[0], args[1]);
+      case 'unaryMinus':
+        // Fold into a fitted constant so -k*x reads like any other coefficient
+        return args[0].kind === 'number' ? { ...args[0], value: -args[0].value } : negate(args[0]);
+      case 'unaryPlus':
+        return args[0];
+      default:
+        // mod, factorial and the like have function forms of the same name
+        return call(node.fn, ...args);
+    }
+  }
+  throw new Error(`"${node.toString()}" cannot be written as a formula`);
+}
+
+// Mantissa and power of ten for magnitudes that fixed decimals would show as 0 or as a long run
+// of digits, with precision significant digits; null when fixed decimals suffice
+function scientificParts(
+  value: number,
+  precision: number
+): { mantissa: string; exponent: number } | null {
+  const magnitude = Math.abs(value);
+  if (magnitude === 0 || (magnitude >= Math.pow(10, 1 - precision) && magnitude < 1e6)) {
+    return null;
+  }
+  const [mantissa, exponent] = magnitude.toExponential(precision - 1).split('e');
+  return { mantissa: String(parseFloat(mantissa)), exponent: Number(exponent) };
+}
+
+function formatNumber(num: number, precision: number = 4): string {
+  if (Math.abs(num - Math.round(num)) < Math.pow(10, -precision)) {
+    return Math.round(num).toString();
+  }
+
+  const rounded = parseFloat(num.toFixed(precision + 2));
+  const str = rounded.toString();
+  if (str.includes('.') && str.split('.')[1].length <= Math.min(3, precision)) {
+    return str;
+  }
+
+  return num.toFixed(precision);
+}
+
+export function renderEquation(model: ModelEquation, format: ExpressionFormat): string {
+  switch (format) {
+    case 'text': {
+      const lhs = renderText(prune(model.lhs, 'display'));
+      const rhs = prune(model.rhs, 'display');
+      // One line per piece
+      if (rhs.kind === 'piecewise') {
+        return rhs.pieces
+          .map(
+            ({ expression, from, to }) =>
+              `${lhs} = ${renderText(expression)}, ${renderText(from)} ≤ x ≤ ${renderText(to)}`
+          )
+          .join('\n');
+      }
+      return `${lhs} = ${renderText(rhs)}`;
+    }
+    case 'desmos':
+    case 'latex': {
+      const desmos = format === 'desmos';
+      const lhs = renderLatex(prune(model.lhs, 'display'), desmos);
+      return `${lhs} = ${renderLatex(prune(model.rhs, 'display'), desmos)}`;
+    }
+    default:
+      return renderCodeEquation(model, format);
+  }
+}
+
+// Code defines f(x) for functions and F(x, y) = lhs - rhs, zero on the curve, for curves
+function renderCodeEquation(model: ModelEquation, language: CodeLanguage): string {
+  const explicit = model.lhs.kind === 'symbol' && model.lhs.name === 'y';
+  const residual =
+    model.rhs.kind === 'number' && model.rhs.value === 0
+      ? model.lhs
+      : sum(model.lhs, negate(model.rhs));
+  const body = renderCode(prune(explicit ? model.rhs : residual, 'code'), language);
+
+  switch (language) {
+    case 'mathjs':
+      return `${explicit ? 'f(x)' : 'F(x, y)'} = ${body}`;
+    case 'python':
+      return `import numpy as np\n\ndef ${explicit ? 'f(x)' : 'F(x, y)'}:\n    return ${body}`;
+    case 'javascript':
+      return `const ${explicit ? 'f = x' : 'F = (x, y)'} => ${body};`;
+    case 'excel':
+      // x in column A and y in column B, starting on row 2
+      return `=${body}`;
+  }
+}
+
+const SUM = 1;
+const PRODUCT = 2;
+const POWER = 3;
+const ATOM = 4;
+
+type Style = 'display' | 'code';
+
+// Unsigned number as text shows it before any sign or fraction markup
+function displayMagnitude(node: NumberNode): string {
+  if (node.fraction) {
+    const { numerator, denominator } = node.fraction;
+    return denominator === '1' ? numerator : `${numerator}/${denominator}`;
+  }
+  const scientific = displayScientific(node);
+  if (scientific) {
+    return `${scientific.mantissa}·10${superscript(String(scientific.exponent))}`;
+  }
+  return formatNumber(Math.abs(node.value), node.precision ?? 4);
+}
+
+function displayScientific(node: NumberNode): ReturnType<typeof scientificParts> {
+  if (node.fraction || node.degrees) return null;
+  return scientificParts(node.value, node.precision ?? 4);
+}
+
+// Only exact zeros are dropped: a small coefficient still matters where x is large, and the
+// display has to plot the same curve as the code exports
+function isZero(node: Expression): boolean {
+  return node.kind === 'number' && !node.degrees && node.value === 0;
+}
+
+function isUnit(node: Expression, style: Style): boolean {
+  if (node.kind !== 'number' || node.degrees) return false;
+  return style === 'display' ? displayMagnitude(node) === '1' : Math.abs(node.value) === 1;
+}
+
+// Drops zero terms and unit coefficients. Text and LaTeX judge units at display precision, so a
+// coefficient that shows as 1 is left out there while code keeps its exact value
+function prune(node: Expression, style: Style): Expression {
+  switch (node.kind) {
+    case 'sum': {
+      const terms = node.terms
+        .map(term => prune(term, style))
+        .filter(term => !isZero(splitSign(term)[1]));
+      return terms.length === 0 ? num(0) : sum(...terms);
+    }
+    case 'product': {
+      const factors = node.factors.map(factor => prune(factor, style));
+      if (factors.some(isZero)) return num(0);
+      const [first, ...rest] = factors;
+      if (rest.length > 0 && isUnit(first, style)) {
+        const unit = product(...rest);
+        return (first as NumberNode).value < 0 ? negate(unit) : unit;
+      }
+      return product(...factors);
+    }
+    case 'quotient':
+      return quotient(prune(node.numerator, style), prune(node.denominator, style));
+    case 'power':
+      return power(prune(node.base, style), prune(node.exponent, style));
+    case 'negate':
+      return negate(prune(node.operand, style));
+    case 'call':
+      return call(node.name, ...node.args.map(arg => prune(arg, style)));
+    case 'piecewise':
+      return piecewise(
+        node.pieces.map(piece => ({ ...piece, expression: prune(piece.expression, style) }))
+      );
+    default:
+      return node;
+  }
+}
+
+// Separates a leading minus so that sums can print "a - b" rather than "a + -b"
+function splitSign(node: Expression): [boolean, Expression] {
+  switch (node.kind) {
+    case 'number':
+      return node.value < 0 ? [true, { ...node, value: -node.value }] : [false, node];
+    case 'negate': {
+      const [negative, magnitude] = splitSign(node.operand);
+      return [!negative, magnitude];
+    }
+    case 'product': {
+      const [negative, first] = splitSign(node.factors[0]);
+      return [negative, { kind: 'product', factors: [first, ...node.factors.slice(1)] }];
+    }
+    case 'quotient': {
+      const [negative, numerator] = splitSign(node.numerator);
+      return [negative, { ...node, numerator }];
+    }
+    default:
+      return [false, node];
+  }
+}
+
+function isFraction(node: NumberNode, style: Style): boolean {
+  if (!node.fraction || node.fraction.denominator === '1' || node.degrees) return false;
+  return style === 'display' || node.fraction.exact;
+}
+
+function precedence(node: Expression, style: Style): number {
+  switch (node.kind) {
+    case 'sum':
+      return SUM;
+    case 'product':
+    case 'quotient':
+    case 'negate':
+      return PRODUCT;
+    case 'number':
+      return node.value < 0 ||
+        isFraction(node, style) ||
+        (style === 'display' && displayScientific(node))
+        ? PRODUCT
+        : ATOM;
+    case 'power':
+      return POWER;
+    case 'piecewise':
+      // Code writes it as a conditional, which binds looser than anything else
+      return style === 'code' ? 0 : ATOM;
+    default:
+      return ATOM;
+  }
+}
+
+function joinTerms(terms: Expression[], render: (node: Expression) => string): string {
+  return terms
+    .map((term, i) => {
+      const [negative, magnitude] = splitSign(term);
+      const body = render(magnitude);
+      if (i === 0) return negative ? `-${body}` : body;
+      return `${negative ? ' - ' : ' + '}${body}`;
+    })
+    .join('');
+}
+
+// Plain text
+
+const SUPERSCRIPT_DIGITS = '⁰¹²³⁴⁵⁶⁷⁸⁹';
+
+function superscript(digits: string): string {
+  return digits
+    .split('')
+    .map(digit => (digit === '-' ? '⁻' : SUPERSCRIPT_DIGITS[Number(digit)]))
+    .join('');
+}
+
+function renderText(node: Expression): string {
+  const wrap = (child: Expression, minimum: number) => {
+    const text = renderText(child);
+    return precedence(child, 'display') < minimum ? `(${text})` : text;
+  };
+
+  switch (node.kind) {
+    case 'number': {
+      if (node.degrees) {
+        return `${formatNumber((node.value * 180) / Math.PI, 2)}°`;
+      }
+      const magnitude = displayMagnitude(node);
+      return node.value < 0 && magnitude !== '0' ? `-${magnitude}` : magnitude;
+    }
+    case 'symbol':
+      return node.name;
+    case 'sum':
+      return joinTerms(node.terms, term => wrap(term, PRODUCT));
+    case 'product':
+      return renderTextProduct(node.factors);
+    case 'quotient':
+      return `${wrap(node.numerator, PRODUCT)} / ${wrap(node.denominator, POWER)}`;
+    case 'power': {
+      const { base, exponent } = node;
+      if (isSuperscript(exponent)) {
+        return `${wrap(base, ATOM)}${superscript(String((exponent as NumberNode).value))}`;
+      }
+      const plain = exponent.kind === 'number' && precedence(exponent, 'display') === ATOM;
+      return `${wrap(base, ATOM)}^${plain ? renderText(exponent) : `(${renderText(exponent)})`}`;
+    }
+    case 'negate': {
+      const [negative, magnitude] = splitSign(node.operand);
+      return negative ? renderText(magnitude) : `-${wrap(magnitude, PRODUCT)}`;
+    }
+    case 'call':
+      return `${node.name}(${node.args.map(renderText).join(', ')})`;
+    case 'piecewise':
+      return node.pieces
+        .map(
+          ({ expression, from, to }) =>
+            `${renderText(expression)}, ${renderText(from)} ≤ x ≤ ${renderText(to)}`
+        )
+        .join('; ');
+  }
+}
+
+function isSuperscript(exponent: Expression): boolean {
+  return (
+    exponent.kind === 'number' &&
+    !exponent.degrees &&
+    (!exponent.fraction || exponent.fraction.denominator === '1') &&
+    Number.isInteger(exponent.value) &&
+    exponent.value >= 0
+  );
+}
+
+// Factors a coefficient can sit right next to, as in 3x², -2(x - 1) or 5xy
+function isJuxtaposable(node: Expression): boolean {
+  if (node.kind === 'symbol' || node.kind === 'sum') return true;
+  return (
+    node.kind === 'power' &&
+    isSuperscript(node.exponent) &&
+    (node.base.kind === 'symbol' || node.base.kind === 'sum')
+  );
+}
+
+// "2x²", "(2/3)x" and "-1.5(x - 3)", but "2 * sin(x)" and "2 * e^(x)"
+function renderTextProduct(factors: Expression[]): string {
+  return factors
+    .map((factor, i) => {
+      if (i === 0) {
+        const next = factors[1];
+        const juxtaposed = factor.kind === 'number' && isJuxtaposable(next);
+        if (factor.kind === 'number' && juxtaposed && isFraction(factor, 'display')) {
+          return `${factor.value < 0 ? '-' : ''}(${displayMagnitude(factor)})`;
+        }
+        const text = renderText(factor);
+        return precedence(factor, 'display') < PRODUCT ? `(${text})` : text;
+      }
+
+      const previous = factors[i - 1];
+      const juxtaposed =
+        isJuxtaposable(factor) && (previous.kind === 'number' || isJuxtaposable(previous));
+      const text = renderText(factor);
+      const wrapped = precedence(factor, 'display') < POWER ? `(${text})` : text;
+      return juxtaposed ? wrapped : ` * ${wrapped}`;
+    })
+    .join('');
+}
+
+// LaTeX, and the LaTeX dialect Desmos accepts when pasted
+
+const LATEX_FUNCTIONS: Record<string, string> = {
+  sin: '\\sin',
+  cos: '\\cos',
+  tan: '\\tan',
+  sec: '\\sec',
+  csc: '\\csc',
+  cot: '\\cot',
+  asin: '\\arcsin',
+  acos: '\\arccos',
+  atan: '\\arctan',
+  sinh: '\\sinh',
+  cosh: '\\cosh',
+  tanh: '\\tanh',
+  exp: '\\exp',
+  ln: '\\ln',
+  log: '\\log',
+  log10: '\\log_{10}',
+};
+
+function renderLatex(node: Expression, desmos: boolean): string {
+  const latex = (child: Expression) => renderLatex(child, desmos);
+  const wrap = (child: Expression, minimum: number) => {
+    const text = latex(child);
+    return precedence(child, 'display') < minimum ? `\\left(${text}\\right)` : text;
+  };
+
+  switch (node.kind) {
+    case 'number': {
+      // Desmos works in radians
+      if (node.degrees) {
+        return desmos
+          ? formatNumber(node.value, 6)
+          : `${formatNumber((node.value * 180) / Math.PI, 2)}^{\\circ}`;
+      }
+      const sign = node.value < 0 && displayMagnitude(node) !== '0' ? '-' : '';
+      if (isFraction(node, 'display')) {
+        return `${sign}\\frac{${node.fraction!.numerator}}{${node.fraction!.denominator}}`;
+      }
+      const scientific = displayScientific(node);
+      if (scientific) {
+        return `${sign}${scientific.mantissa}\\cdot10^{${scientific.exponent}}`;
+      }
+      return `${sign}${displayMagnitude(node)}`;
+    }
+    case 'symbol':
+      return node.name === 'pi' ? '\\pi' : node.name;
+    case 'sum':
+      return joinTerms(node.terms, term => wrap(term, PRODUCT));
+    case 'product':
+      return node.factors
+        .map((factor, i) => wrap(factor, i === 0 ? PRODUCT : POWER))
+        .reduce((joined, next) => {
+          if (/^[\d.-]|^\\frac/.test(next)) return `${joined}\\cdot ${next}`;
+          // Keep a command such as \pi from running into the next letter
+          if (/\\[a-zA-Z]+$/.test(joined) && /^[a-zA-Z]/.test(next)) return `${joined} ${next}`;
+          return joined + next;
+        });
+    case 'quotient':
+      return `\\frac{${latex(node.numerator)}}{${latex(node.denominator)}}`;
+    case 'power':
+      return `${wrap(node.base, ATOM)}^{${latex(node.exponent)}}`;
+    case 'negate': {
+      const [negative, magnitude] = splitSign(node.operand);
+      return negative ? latex(magnitude) : `-${wrap(magnitude, PRODUCT)}`;
+    }
+    case 'call': {
+      const args = node.args.map(latex).join(', ');
+      if (node.name === 'sqrt') return `\\sqrt{${args}}`;
+      if (node.name === 'abs') return `\\left|${args}\\right|`;
+      const name = LATEX_FUNCTIONS[node.name] ?? `\\operatorname{${node.name}}`;
+      return `${name}\\left(${args}\\right)`;
+    }
+    case 'piecewise':
+      if (desmos) {
+        const branches = node.pieces.map(
+          ({ expression, from, to }, i) =>
+            `${latex(from)}${i === 0 ? '\\le ' : '<'}x\\le ${latex(to)}: ${latex(expression)}`
+        );
+        return `\\left\\{${branches.join(', ')}\\right\\}`;
+      }
+      return `\\begin{cases} ${node.pieces
+        .map(
+          ({ expression, from, to }, i) =>
+            `${latex(expression)} & ${latex(from)} ${i === 0 ? '\\le' : '<'} x \\le ${latex(to)}`
+        )
+        .join(' \\\\ ')} \\end{cases}`;
+  }
+}
+
+// Code: mathjs, Python with NumPy, Excel formulas and JavaScript
+
+const CODE_CONSTANTS: Record<CodeLanguage, Record<string, string>> = {
+  mathjs: { e: 'e', pi: 'pi' },
+  python: { e: 'np.e', pi: 'np.pi' },
+  excel: { e: 'EXP(1)', pi: 'PI()', x: 'A2', y: 'B2' },
+  javascript: { e: 'Math.E', pi: 'Math.PI' },
+};
+
+const PYTHON_FUNCTIONS: Record<string, string> = {
+  ln: 'log',
+  asin: 'arcsin',
+  acos: 'arccos',
+  atan: 'arctan',
+};
+
+function codeFunction(name: string, language: CodeLanguage): string {
+  switch (language) {
+    case 'mathjs':
+      return name === 'ln' ? 'log' : name;
+    case 'python':
+      return `np.${PYTHON_FUNCTIONS[name] ?? name}`;
+    case 'excel':
+      return name.toUpperCase();
+    case 'javascript':
+      return `Math.${name === 'ln' ? 'log' : name}`;
+  }
+}
+
+// Excel negates before it raises to a power and JavaScript rejects -x ** 2, so a leading minus
+// in front of a power needs parentheses there. Powers of e are written as exp calls instead
+function startsWithPower(node: Expression): boolean {
+  if (node.kind === 'power') return !(node.base.kind === 'symbol' && node.base.name === 'e');
+  if (node.kind === 'product') return startsWithPower(node.factors[0]);
+  if (node.kind === 'quotient') return startsWithPower(node.numerator);
+  return false;
+}
+
+function renderCode(node: Expression, language: CodeLanguage): string {
+  const code = (child: Expression) => renderCode(child, language);
+  const wrap = (child: Expression, minimum: number) => {
+    const text = code(child);
+    return precedence(child, 'code') < minimum ? `(${text})` : text;
+  };
+  const negated = (magnitude: Expression) =>
+    (language === 'excel' || language === 'javascript') && startsWithPower(magnitude)
+      ? `-(${code(magnitude)})`
+      : `-${wrap(magnitude, PRODUCT)}`;
+
+  switch (node.kind) {
+    case 'number': {
+      if (isFraction(node, 'code')) {
+        const { numerator, denominator } = node.fraction!;
+        return `${node.value < 0 ? '-' : ''}${numerator}/${denominator}`;
+      }
+      if (node.fraction?.exact && !node.degrees) {
+        return `${node.value < 0 ? '-' : ''}${node.fraction.numerator}`;
+      }
+      return String(node.value);
+    }
+    case 'symbol':
+      return CODE_CONSTANTS[language][node.name] ?? node.name;
+    case 'sum':
+      return node.terms
+        .map((term, i) => {
+          const [negative, magnitude] = splitSign(term);
+          if (i === 0) return negative ? negated(magnitude) : wrap(magnitude, PRODUCT);
+          return `${negative ? ' - ' : ' + '}${wrap(magnitude, PRODUCT)}`;
+        })
+        .join('');
+    case 'product':
+      return node.factors.map((factor, i) => wrap(factor, i === 0 ? PRODUCT : POWER)).join(' * ');
+    case 'quotient':
+      return `${wrap(node.numerator, PRODUCT)} / ${wrap(node.denominator, POWER)}`;
+    case 'power': {
+      if (node.base.kind === 'symbol' && node.base.name === 'e') {
+        return `${codeFunction('exp', language)}(${code(node.exponent)})`;
+      }
+      const operator = language === 'python' || language === 'javascript' ? ' ** ' : '^';
+      return `${wrap(node.base, ATOM)}${operator}${wrap(node.exponent, ATOM)}`;
+    }
+    case 'negate': {
+      const [negative, magnitude] = splitSign(node.operand);
+      return negative ? code(magnitude) : negated(magnitude);
+    }
+    case 'call':
+      return `${codeFunction(node.name, language)}(${node.args.map(code).join(', ')})`;
+    case 'piecewise':
+      return renderCodePiecewise(node, language);
+  }
+}
+
+function renderCodePiecewise(node: PiecewiseNode, language: CodeLanguage): string {
+  const code = (child: Expression) => renderCode(child, language);
+  const x = CODE_CONSTANTS[language].x ?? 'x';
+  const missing = { mathjs: 'NaN', python: 'np.nan', excel: 'NA()', javascript: 'NaN' }[language];
+
+  return node.pieces.reduceRight((otherwise, { expression, from, to }, i) => {
+    const value = code(expression);
+    const upper = `${x} <= ${code(to)}`;
+    switch (language) {
+      case 'python':
+        return `${value} if ${i === 0 ? `${code(from)} <= ` : ''}${upper} else ${otherwise}`;
+      case 'excel': {
+        const condition = i === 0 ? `AND(${code(from)} <= ${x}, ${upper})` : upper;
+        return `IF(${condition}, ${value}, ${otherwise})`;
+      }
+      default: {
+        const and = language === 'mathjs' ? 'and' : '&&';
+        const condition = i === 0 ? `${code(from)} <= ${x} ${and} ${upper}` : upper;
+        return `${condition} ? ${value} : ${otherwise}`;
+      }
+    }
+  }, missing);
+}
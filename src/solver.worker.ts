@@ -0,0 +1,37 @@
+import { compareModels, setProgressListener, solveEquation } from './solvers.ts';
+import type { SolverRequest, SolverResponse } from './solverClient.ts';
+
+// Progress arrives after every Levenberg-Marquardt start, far more often than a display needs
+const PROGRESS_INTERVAL_MS = 100;
+
+function post(message: SolverResponse): void {
+  self.postMessage(message);
+}
+
+self.onmessage = (event: MessageEvent<SolverRequest>) => {
+  const request = event.data;
+
+  let lastProgress = 0;
+  setProgressListener(progress => {
+    const now = Date.now();
+    if (now - lastProgress < PROGRESS_INTERVAL_MS) return;
+    lastProgress = now;
+    post({ id: request.id, type: 'progress', progress });
+  });
+
+  try {
+    const result =
+      request.kind === 'solve'
+        ? solveEquation(request.equationType, request.points, request.useFractions, request.options)
+        : compareModels(request.points, request.useFractions, request.options);
+    post({ id: request.id, type: 'result', result });
+  } catch (e) {
+    post({
+      id: request.id,
+      type: 'error',
+      message: e instanceof Error ? e.message : 'Unknown error',
+    });
+  } finally {
+    setProgressListener(null);
+  }
+};
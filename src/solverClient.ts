@@ -0,0 +1,154 @@
+import type {
+  ApproximationEquationType,
+  DataPoint,
+  ModelCandidate,
+  SolverOptions,
+  SolverProgress,
+  SolverResult,
+} from './solvers.ts';
+
+// Messages between the page and the solver worker
+export type SolverRequest =
+  | {
+      id: number;
+      kind: 'solve';
+      equationType: ApproximationEquationType;
+      points: DataPoint[];
+      useFractions: boolean;
+      options: SolverOptions;
+    }
+  | {
+      id: number;
+      kind: 'compare';
+      points: DataPoint[];
+      useFractions: boolean;
+      options: SolverOptions;
+    };
+
+export type SolverResponse =
+  | { id: number; type: 'progress'; progress: SolverProgress }
+  | { id: number; type: 'result'; result: SolverResult | ModelCandidate[] }
+  | { id: number; type: 'error'; message: string };
+
+// A solve running in the worker; cancelling rejects the promise with SolverCancelledError
+export interface SolverTask<T> {
+  promise: Promise<T>;
+  cancel: () => void;
+}
+
+export class SolverCancelledError extends Error {
+  constructor() {
+    super('Solve cancelled');
+    this.name = 'SolverCancelledError';
+  }
+}
+
+interface PendingTask {
+  resolve: (value: SolverResult | ModelCandidate[]) => void;
+  reject: (error: Error) => void;
+  onProgress?: (progress: SolverProgress) => void;
+}
+
+let worker: Worker | null = null;
+let nextId = 0;
+const pending = new Map<number, PendingTask>();
+
+function getWorker(): Worker {
+  if (worker) return worker;
+
+  worker = new Worker(new URL('./solver.worker.ts', import.meta.url), { type: 'module' });
+  worker.onmessage = (event: MessageEvent<SolverResponse>) => {
+    const message = event.data;
+    const task = pending.get(message.id);
+    if (!task) return;
+
+    if (message.type === 'progress') {
+      task.onProgress?.(message.progress);
+      return;
+    }
+    pending.delete(message.id);
+    if (message.type === 'result') {
+      task.resolve(message.result);
+    } else {
+      task.reject(new Error(message.message));
+    }
+  };
+  worker.onerror = event => {
+    event.preventDefault();
+    stopWorker(new Error(event.message || 'Solver worker failed'));
+  };
+  return worker;
+}
+
+// The solvers run synchronously inside the worker, so stopping one means terminating the worker;
+// the next task starts a fresh one
+function stopWorker(reason: Error): void {
+  worker?.terminate();
+  worker = null;
+  pending.forEach(task => task.reject(reason));
+  pending.clear();
+}
+
+function runTask<T extends SolverResult | ModelCandidate[]>(
+  request: SolverRequest,
+  onProgress?: (progress: SolverProgress) => void
+): SolverTask<T> {
+  const promise = new Promise<T>((resolve, reject) => {
+    pending.set(request.id, {
+      resolve: resolve as (value: SolverResult | ModelCandidate[]) => void,
+      reject,
+      onProgress,
+    });
+  });
+  getWorker().postMessage(request);
+
+  return {
+    promise,
+    cancel: () => {
+      if (pending.has(request.id)) stopWorker(new SolverCancelledError());
+    },
+  };
+}
+
+// Reactive proxies cannot be posted to a worker, so requests carry plain copies
+function toPlain<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value));
+}
+
+export function solveInWorker(
+  equationType: ApproximationEquationType,
+  points: DataPoint[],
+  useFractions: boolean,
+  options: SolverOptions,
+  onProgress?: (progress: SolverProgress) => void
+): SolverTask<SolverResult> {
+  return runTask(
+    {
+      id: nextId++,
+      kind: 'solve',
+      equationType,
+      points: toPlain(points),
+      useFractions,
+      options: toPlain(options),
+    },
+    onProgress
+  );
+}
+
+export function compareModelsInWorker(
+  points: DataPoint[],
+  useFractions: boolean,
+  options: SolverOptions,
+  onProgress?: (progress: SolverProgress) => void
+): SolverTask<ModelCandidate[]> {
+  return runTask(
+    {
+      id: nextId++,
+      kind: 'compare',
+      points: toPlain(points),
+      useFractions,
+      options: toPlain(options),
+    },
+    onProgress
+  );
+}
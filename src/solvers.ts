@@ -1,17 +1,240 @@
 import * as math from 'mathjs';
 import { levenbergMarquardt } from 'ml-levenberg-marquardt';
+import {
+  type Expression,
+  type ModelEquation,
+  type NumberNode,
+  call,
+  equation,
+  fromMathNode,
+  negate,
+  num,
+  piecewise,
+  power,
+  product,
+  quotient,
+  renderEquation,
+  sum,
+  symbol,
+} from './expression.ts';
 
 export interface DataPoint {
   x: number;
   y: number;
+  // Coordinates as typed when they were entered as expressions such as "pi/2" or "1/3"
+  xText?: string;
+  yText?: string;
+  // Standard uncertainties; when present, approximation fits weight each point by 1/σ
+  sigmaY?: number;
+  sigmaX?: number;
 }
 
 export interface SolverResult {
   coefficients: Record<string, number>;
+  // The fitted model as an expression tree; equation and desmosEquation are rendered from it
+  model?: ModelEquation;
+  // Classification shown before the model, such as "Hyperbola" for a conic
+  modelLabel?: string;
+  // The same curve in general conic form, shown after the model for rotated ellipses
+  generalModel?: ModelEquation;
   equation: string;
   desmosEquation?: string;
   error?: string;
   rSquared?: number;
+  adjustedRSquared?: number;
+  // Root mean square of the geometric residuals, for fits that minimize distances to a curve
+  rmsResidual?: number;
+  // χ² per degree of freedom of a fit to points with uncertainties; near 1 for a good model
+  reducedChiSquared?: number;
+  // Display names for coefficients worth listing on their own, such as derived quantities
+  coefficientLabels?: Record<string, string>;
+  // Fitted model in mathjs syntax, with the coefficients as free symbols (custom fits)
+  customExpression?: string;
+  pieces?: SplinePiece[];
+  // Caveat about an otherwise valid result, such as oscillation of a high-degree interpolant
+  warning?: string;
+  // Indices of the input points a robust fit rejected or heavily downweighted
+  outliers?: number[];
+  statistics?: RegressionStatistics;
+  uncertainty?: FitUncertainty;
+  residualAnalysis?: ResidualAnalysis;
+  conicAnalysis?: ConicAnalysis;
+}
+
+export interface CoefficientStatistics {
+  estimate: number;
+  standardError: number;
+  confidenceInterval: [number, number];
+  tStatistic: number;
+  pValue: number;
+}
+
+export interface RegressionStatistics {
+  slope: CoefficientStatistics;
+  intercept: CoefficientStatistics;
+  pearsonR: number;
+  residualStandardError: number;
+  degreesOfFreedom: number;
+  confidenceLevel: number;
+}
+
+// Parameter covariance of an approximation fit, from the Jacobian of the residuals at the solution
+export interface FitUncertainty {
+  // Fitted coefficients in the order of the covariance matrix rows
+  parameterNames: string[];
+  parameters: Record<string, CoefficientStatistics>;
+  covariance: number[][];
+  // s², the residual variance per degree of freedom (the reduced χ² for weighted fits)
+  residualVariance: number;
+  // Mean σ² of the points, the scale of a new observation's own scatter in prediction bands
+  observationVariance: number;
+  degreesOfFreedom: number;
+  confidenceLevel: number;
+}
+
+// Diagnostics of the residuals of an approximation fit, indexed like the input points
+export interface ResidualAnalysis {
+  // Vertical offsets y - f(x) for functions, signed distances to implicit curves
+  residuals: number[];
+  // Residuals over their uncertainty and the residual standard deviation of the fit
+  standardized: number[];
+  rmse: number;
+  mae: number;
+  maxError: number;
+  // Near 2 for independent residuals, towards 0 or 4 for positive or negative autocorrelation
+  durbinWatson: number;
+  // Normal Q-Q plot points, sorted by the standardized residual
+  quantiles: Array<{ index: number; theoretical: number; sample: number }>;
+  // Histogram of the residuals with equal-width bins starting at histogramStart
+  histogramStart: number;
+  histogramBinWidth: number;
+  histogramCounts: number[];
+  // Points whose standardized residual exceeds LARGE_RESIDUAL_CUTOFF
+  largeResiduals: number[];
+}
+
+// Fitted value with confidence (mean curve) and prediction (new observation) intervals at one x
+export interface ConfidenceBand {
+  fit: number;
+  confidence: [number, number];
+  prediction: [number, number];
+}
+
+// One fitted model of an automatic comparison, with the criteria used to rank it
+export interface ModelCandidate {
+  equationType: ApproximationEquationType;
+  // Options that select this variant, such as the polynomial degree
+  options: SolverOptions;
+  label: string;
+  // Functions y = f(x) and implicit curves F(x, y) = 0 measure residuals differently (vertical
+  // versus geometric distance), so they are only ranked against their own kind
+  kind: CurveFunction['kind'];
+  result: SolverResult;
+  parameterCount: number;
+  aic?: number;
+  bic?: number;
+  // Root mean square residual on held-out points under k-fold cross-validation
+  cvError?: number;
+}
+
+export type SelectionCriterion = 'aic' | 'bic' | 'cv';
+
+// Snapshot of a long-running fit, for progress displays
+export interface SolverProgress {
+  // Steps under way from outermost to innermost, such as the model and its current start
+  strategy: string;
+  // Best R² any fit has reached so far
+  bestRSquared?: number;
+}
+
+export interface SolverOptions {
+  // Degree of the fitted polynomial for polynomial regression
+  degree?: number;
+  // Whether the power law fit includes the constant offset c
+  includeOffset?: boolean;
+  // Sigmoid variant for growth curve fitting
+  growthModel?: GrowthModel;
+  // Number of harmonics in a Fourier series fit
+  harmonics?: number;
+  // Model expression in mathjs syntax and per-parameter settings for custom fits
+  customExpression?: string;
+  customParameters?: Record<string, CustomParameterSettings>;
+  // End conditions for spline interpolation; the slopes are used by clamped splines
+  splineType?: SplineType;
+  startSlope?: number;
+  endSlope?: number;
+  // Number of points for exact polynomial interpolation
+  interpolationPoints?: number;
+  // Outlier handling for approximation fits
+  robustMethod?: RobustMethod;
+}
+
+// Huber and Tukey reweight every point by its residual (IRLS); RANSAC fits the largest consensus
+// set of a line, circle or ellipse and drops the remaining points
+export type RobustMethod = 'none' | 'huber' | 'tukey' | 'ransac';
+
+export type SplineType = 'natural' | 'clamped' | 'not-a-knot' | 'pchip';
+
+// One cubic piece a + b(x - xStart) + c(x - xStart)² + d(x - xStart)³ on [xStart, xEnd]
+export interface SplinePiece {
+  xStart: number;
+  xEnd: number;
+  coefficients: [number, number, number, number];
+}
+
+export interface CustomParameterSettings {
+  initial?: number;
+  min?: number;
+  max?: number;
+}
+
+export type GrowthModel = 'logistic' | 'gompertz' | 'richards';
+
+export interface Point2D {
+  x: number;
+  y: number;
+}
+
+// A line through `point` whose direction makes `angle` radians with the positive x-axis
+export interface Line2D {
+  point: Point2D;
+  angle: number;
+}
+
+export type ConicKind =
+  | 'ellipse'
+  | 'circle'
+  | 'parabola'
+  | 'hyperbola'
+  | 'imaginary ellipse'
+  | 'point'
+  | 'intersecting lines'
+  | 'parallel lines'
+  | 'coincident lines'
+  | 'imaginary lines'
+  | 'line';
+
+export interface ConicAnalysis {
+  kind: ConicKind;
+  isDegenerate: boolean;
+  // B² - 4AC, negative for ellipses, zero for parabolas and positive for hyperbolas
+  discriminant: number;
+  // Determinant of the 3×3 conic matrix, zero exactly when the conic is degenerate
+  determinant: number;
+  center?: Point2D;
+  // Direction of the major axis, transverse axis or parabola opening, in radians
+  rotation?: number;
+  semiMajorAxis?: number;
+  semiMinorAxis?: number;
+  eccentricity?: number;
+  // Distance from a focus to its directrix
+  focalParameter?: number;
+  foci?: Point2D[];
+  vertices?: Point2D[];
+  asymptotes?: Line2D[];
+  directrix?: Line2D;
+  // Component lines of degenerate conics
+  lines?: Line2D[];
 }
 
 export const ExactEquationType = {
@@ -20,6 +243,7 @@ export const ExactEquationType = {
   CUBIC: 'cubic',
   CIRCLE: 'circle',
   CONIC: 'conic',
+  INTERPOLATION: 'interpolation',
 } as const;
 
 export const ApproximationEquationType = {
@@ -27,6 +251,17 @@ export const ApproximationEquationType = {
   LOG: 'log',
   EXPONENTIAL: 'exponential',
   ELLIPSE: 'ellipse',
+  POLYNOMIAL: 'polynomial',
+  LINEAR_REGRESSION: 'linear-regression',
+  CONIC_FIT: 'conic-fit',
+  ROTATED_ELLIPSE: 'rotated-ellipse',
+  CIRCLE_FIT: 'circle-fit',
+  POWER: 'power',
+  LOGISTIC: 'logistic',
+  FOURIER: 'fourier',
+  DAMPED_SINE: 'damped-sine',
+  CUSTOM: 'custom',
+  SPLINE: 'spline',
 } as const;
 
 export const EquationType = {
@@ -42,16 +277,18 @@ export type EquationType = ExactEquationType | ApproximationEquationType;
 export function solveEquation(
   equationType: EquationType,
   points: DataPoint[],
-  useFractions: boolean = true
+  useFractions: boolean = true,
+  options: SolverOptions = {}
 ): SolverResult {
   try {
     if (Object.values(ExactEquationType).includes(equationType as ExactEquationType)) {
-      return solveExactEquation(equationType as ExactEquationType, points, useFractions);
+      return solveExactEquation(equationType as ExactEquationType, points, useFractions, options);
     } else {
       return solveApproximationEquation(
         equationType as ApproximationEquationType,
         points,
-        useFractions
+        useFractions,
+        options
       );
     }
   } catch (e) {
@@ -67,7 +304,8 @@ export function solveEquation(
 function solveExactEquation(
   equationType: ExactEquationType,
   points: DataPoint[],
-  useFractions: boolean = true
+  useFractions: boolean = true,
+  options: SolverOptions = {}
 ): SolverResult {
   const duplicates = findDuplicatePoints(points);
   if (duplicates.length > 0) {
@@ -90,6 +328,8 @@ function solveExactEquation(
       return solveCircle(points, useFractions);
     case ExactEquationType.CONIC:
       return solveConic(points, useFractions);
+    case ExactEquationType.INTERPOLATION:
+      return solveInterpolation(points, options.interpolationPoints ?? 5, useFractions);
     default:
       return { coefficients: {}, equation: '', desmosEquation: '', error: 'Unknown equation type' };
   }
@@ -132,45 +372,40 @@ function solvePolynomial(
     };
   }
 
-  const A: number[][] = [];
-  const B: number[] = [];
+  try {
+    // Rational inputs are solved exactly, so fractional coefficients are exact rather than guessed
+    const exactPoints = toExactPoints(points);
+    const exactSolution = exactPoints ? solvePolynomialExact(exactPoints, degree) : null;
+    let solution: number[];
+
+    if (exactSolution) {
+      solution = exactSolution.map(value => math.number(value));
+    } else if (exactPoints) {
+      throw new Error('singular system');
+    } else {
+      const A: number[][] = [];
+      const B: number[] = [];
 
-  for (let i = 0; i < points.length; i++) {
-    const { x, y } = points[i];
-    const row: number[] = [];
+      for (let i = 0; i < points.length; i++) {
+        const { x, y } = points[i];
+        const row: number[] = [];
 
-    for (let j = degree; j >= 0; j--) {
-      row.push(x ** j);
-    }
+        for (let j = degree; j >= 0; j--) {
+          row.push(x ** j);
+        }
 
-    A.push(row);
-    B.push(y);
-  }
+        A.push(row);
+        B.push(y);
+      }
+
+      solution = (math.lusolve(A, B) as number[][]).map(row => row[0]);
+    }
 
-  try {
-    const solution = math.lusolve(A, B) as number[][];
     const coefficients: Record<string, number> = {};
-    const terms: Array<{ coef: number; term: string }> = [];
 
     for (let i = 0; i <= degree; i++) {
-      const coef = solution[i][0];
-      const power = degree - i;
-
       const coeffName = String.fromCharCode(97 + i); // 'a', 'b', 'c', 'd'
-      coefficients[coeffName] = coef;
-
-      let term = '';
-      if (power === 0) {
-        term = ''; // constant term
-      } else if (power === 1) {
-        term = 'x';
-      } else if (power === 2) {
-        term = 'x²';
-      } else if (power === 3) {
-        term = 'x³';
-      }
-
-      terms.push({ coef, term });
+      coefficients[coeffName] = solution[i];
     }
 
     if (!validateCoefficients(coefficients)) {
@@ -183,11 +418,14 @@ function solvePolynomial(
       };
     }
 
-    return {
-      coefficients,
-      equation: buildPolynomialEquation(terms, useFractions),
-      desmosEquation: buildPolynomialEquation(terms, useFractions),
-    };
+    // Irrational inputs get decimals: a fraction guessed from the float would not be exact
+    const model = polynomialModel(
+      useFractions && exactSolution
+        ? exactSolution.map(exactNode)
+        : solution.map(coef => coefficientNode(coef, false))
+    );
+
+    return { coefficients, ...renderModel(model) };
   } catch (e) {
     const equationType = degree === 1 ? 'linear' : degree === 2 ? 'quadratic' : 'cubic';
     return {
@@ -199,6 +437,28 @@ function solvePolynomial(
   }
 }
 
+// Coefficients of the polynomial through the points, highest power first, or null when two
+// points share an x coordinate
+function solvePolynomialExact(points: ExactPoint[], degree: number): math.Fraction[] | null {
+  // [xⁿ, ..., x, 1, y]·[a, ..., c, -1] = 0, so the solution spans the null space of the rows
+  const rows = points.map(({ x, y }) => {
+    const row: math.Fraction[] = [];
+    for (let j = degree; j >= 0; j--) {
+      row.push(math.pow(x, j) as math.Fraction);
+    }
+    row.push(y);
+    return row;
+  });
+
+  const vector = rationalNullVector(rows);
+  const scale = vector?.[degree + 1];
+  if (!vector || !scale || scale.n === 0n) return null;
+
+  return vector
+    .slice(0, degree + 1)
+    .map(value => math.divide(value, math.unaryMinus(scale)) as math.Fraction);
+}
+
 // Linear equation: y = ax + b
 function solveLinear(points: DataPoint[], useFractions: boolean = true): SolverResult {
   return solvePolynomial(points, 1, useFractions);
@@ -214,6 +474,425 @@ function solveCubic(points: DataPoint[], useFractions: boolean = true): SolverRe
   return solvePolynomial(points, 3, useFractions);
 }
 
+// Interpolating polynomial of degree N-1 through N points, from Newton divided differences
+// computed in exact rational arithmetic
+function solveInterpolation(
+  points: DataPoint[],
+  pointCount: number,
+  useFractions: boolean = true
+): SolverResult {
+  if (points.length !== pointCount) {
+    return {
+      coefficients: {},
+      equation: '',
+      desmosEquation: '',
+      error: `Need exactly ${pointCount} points for interpolation`,
+    };
+  }
+
+  const xValues = new Set(points.map(p => p.x));
+  if (xValues.size !== points.length) {
+    return {
+      coefficients: {},
+      equation: '',
+      desmosEquation: '',
+      error: 'Interpolation needs distinct x values - two points share an x coordinate',
+    };
+  }
+
+  try {
+    // Rational points are interpolated exactly; irrational ones such as sqrt(2) fall back to
+    // floating point, where a fraction of the float would only look exact
+    const exactPoints = toExactPoints(points);
+    const x: Scalar[] = exactPoints ? exactPoints.map(p => p.x) : points.map(p => p.x);
+    const table: Scalar[] = exactPoints ? exactPoints.map(p => p.y) : points.map(p => p.y);
+    const zero: Scalar = exactPoints ? math.fraction(0) : 0;
+    const n = points.length;
+
+    // Divided differences in place: after pass j, table[i] holds f[x(i-j), ..., x(i)]
+    for (let j = 1; j < n; j++) {
+      for (let i = n - 1; i >= j; i--) {
+        table[i] = math.divide(
+          math.subtract(table[i], table[i - 1]),
+          math.subtract(x[i], x[i - j])
+        ) as Scalar;
+      }
+    }
+
+    // Expand the Newton form c₀ + c₁(x - x₀) + c₂(x - x₀)(x - x₁) + ... into powers of x with
+    // Horner's scheme; power[k] is the coefficient of xᵏ
+    let power: Scalar[] = [table[n - 1]];
+    for (let i = n - 2; i >= 0; i--) {
+      const next: Scalar[] = new Array(power.length + 1).fill(zero);
+      power.forEach((coef, k) => {
+        next[k + 1] = math.add(next[k + 1], coef) as Scalar;
+        next[k] = math.subtract(next[k], math.multiply(coef, x[i])) as Scalar;
+      });
+      next[0] = math.add(next[0], table[i]) as Scalar;
+      power = next;
+    }
+
+    const degree = n - 1;
+    const coefficients: Record<string, number> = {};
+    for (let k = degree; k >= 0; k--) {
+      coefficients[String.fromCharCode(97 + degree - k)] = math.number(power[k]);
+    }
+
+    if (!validateCoefficients(coefficients)) {
+      return {
+        coefficients: {},
+        equation: '',
+        desmosEquation: '',
+        error: 'Unable to interpolate - invalid coefficients',
+      };
+    }
+
+    const highestFirst = power.slice().reverse();
+    const model = polynomialModel(
+      useFractions && exactPoints
+        ? (highestFirst as math.Fraction[]).map(exactNode)
+        : highestFirst.map(coef => coefficientNode(math.number(coef), false))
+    );
+
+    return {
+      coefficients,
+      ...renderModel(model),
+      warning: detectRungeOscillation(points, coefficients, degree),
+    };
+  } catch (e) {
+    return {
+      coefficients: {},
+      equation: '',
+      desmosEquation: '',
+      error: 'Unable to interpolate the given points',
+    };
+  }
+}
+
+// Symbols a coordinate expression may use
+const COORDINATE_CONSTANTS = ['pi', 'PI', 'e', 'E', 'tau', 'phi'];
+
+const COORDINATE_FUNCTIONS = [
+  'sqrt',
+  'cbrt',
+  'nthRoot',
+  'abs',
+  'exp',
+  'log',
+  'log2',
+  'log10',
+  'sin',
+  'cos',
+  'tan',
+  'asin',
+  'acos',
+  'atan',
+  'sinh',
+  'cosh',
+  'tanh',
+];
+
+const COORDINATE_OPERATORS = [
+  'add',
+  'subtract',
+  'multiply',
+  'divide',
+  'pow',
+  'unaryMinus',
+  'unaryPlus',
+];
+
+// Evaluate a coordinate typed as an arithmetic expression such as "pi/2", "√3", "1/3" or
+// "2e-3*5". Only numbers, the constants above, arithmetic and a fixed set of functions are
+// allowed, so arbitrary mathjs code never runs
+export function parseCoordinate(text: string): {
+  value: number;
+  node?: math.MathNode;
+  error?: string;
+} {
+  // Accept the √ and π symbols as shorthands for sqrt() and pi
+  const source = text
+    .trim()
+    .replace(/π/g, 'pi')
+    .replace(/√\s*(\d*\.?\d+|pi|e)/g, 'sqrt($1)')
+    .replace(/√/g, 'sqrt');
+  if (!source) {
+    return { value: NaN, error: 'Enter a value' };
+  }
+
+  let node: math.MathNode;
+  try {
+    node = math.parse(source);
+  } catch (e) {
+    return { value: NaN, error: 'Not a valid expression' };
+  }
+
+  let error: string | undefined;
+  node.traverse((child, path, parent) => {
+    if (math.isFunctionNode(child)) {
+      if (!COORDINATE_FUNCTIONS.includes(child.fn.name)) {
+        error ??= `Function "${child.fn.name}" is not allowed`;
+      }
+    } else if (math.isSymbolNode(child)) {
+      if (
+        !(math.isFunctionNode(parent) && path === 'fn') &&
+        !COORDINATE_CONSTANTS.includes(child.name)
+      ) {
+        error ??= `Unknown symbol "${child.name}"`;
+      }
+    } else if (math.isOperatorNode(child)) {
+      if (!COORDINATE_OPERATORS.includes(child.fn)) {
+        error ??= `Operator "${child.op}" is not allowed`;
+      }
+    } else if (!math.isConstantNode(child) && !math.isParenthesisNode(child)) {
+      error ??= 'Only a numeric expression is allowed';
+    }
+  });
+  if (error) {
+    return { value: NaN, error };
+  }
+
+  let value: unknown;
+  try {
+    value = node.compile().evaluate();
+  } catch (e) {
+    return { value: NaN, error: 'Could not evaluate the expression' };
+  }
+
+  if (typeof value !== 'number') {
+    return { value: NaN, error: 'Not a real number' };
+  }
+  if (!isFinite(value)) {
+    return { value: NaN, error: 'Not a finite number' };
+  }
+
+  return { value, node };
+}
+
+// A data point from typed coordinates and optional uncertainties (blank means none). The text
+// of a coordinate is kept when it is an expression rather than a plain number, so exact solvers
+// can use its rational value
+export function parsePoint(
+  xText: string,
+  yText: string,
+  sigmaYText: string = '',
+  sigmaXText: string = ''
+): { point?: DataPoint; xError?: string; yError?: string; sigmaError?: string } {
+  const x = parseCoordinate(xText);
+  const y = parseCoordinate(yText);
+  const sigmaY = parseUncertainty(sigmaYText);
+  const sigmaX = parseUncertainty(sigmaXText);
+  const sigmaError = sigmaY.error ?? sigmaX.error;
+  if (x.error || y.error || sigmaError) {
+    return { xError: x.error, yError: y.error, sigmaError };
+  }
+
+  const point: DataPoint = { x: x.value, y: y.value };
+  if (!isFinite(Number(xText))) point.xText = xText.trim();
+  if (!isFinite(Number(yText))) point.yText = yText.trim();
+  if (sigmaY.value !== undefined) point.sigmaY = sigmaY.value;
+  if (sigmaX.value !== undefined) point.sigmaX = sigmaX.value;
+  return { point };
+}
+
+function parseUncertainty(text: string): { value?: number; error?: string } {
+  if (!text.trim()) return {};
+
+  const { value, error } = parseCoordinate(text);
+  if (error) return { error: `σ: ${error}` };
+  if (value <= 0) return { error: 'σ must be positive' };
+  return { value };
+}
+
+// Exact value of an expression built from rational numbers and arithmetic, such as
+// "1/3 + 1/6" or "(2/3)^2"; null as soon as anything irrational (pi, sqrt(2), ...) appears
+function evaluateExactNode(node: math.MathNode): math.Fraction | null {
+  if (math.isConstantNode(node)) {
+    return typeof node.value === 'number' ? toExactRational(node.value) : null;
+  }
+  if (math.isParenthesisNode(node)) {
+    return evaluateExactNode(node.content);
+  }
+  if (!math.isOperatorNode(node)) {
+    return null;
+  }
+
+  const args = node.args.map(evaluateExactNode);
+  if (args.some(arg => arg === null)) return null;
+  const [a, b] = args as math.Fraction[];
+
+  switch (node.fn) {
+    case 'unaryPlus':
+      return a;
+    case 'unaryMinus':
+      return math.unaryMinus(a) as math.Fraction;
+    case 'add':
+      return math.add(a, b) as math.Fraction;
+    case 'subtract':
+      return math.subtract(a, b) as math.Fraction;
+    case 'multiply':
+      return math.multiply(a, b) as math.Fraction;
+    case 'divide':
+      return b.n === 0n ? null : (math.divide(a, b) as math.Fraction);
+    case 'pow':
+      // Integer powers keep the result rational; small ones keep the digits manageable
+      if (b.d !== 1n || b.n > 64n || (a.n === 0n && b.s < 0n)) return null;
+      return math.pow(a, Number(b.s * b.n)) as math.Fraction;
+    default:
+      return null;
+  }
+}
+
+// Exact value of a coordinate, preferring the expression it was typed as
+function toExactCoordinate(value: number, text?: string): math.Fraction | null {
+  if (text !== undefined) {
+    const { node } = parseCoordinate(text);
+    const exact = node ? evaluateExactNode(node) : null;
+    if (exact) return exact;
+  }
+  return toExactRational(value);
+}
+
+interface ExactPoint {
+  x: math.Fraction;
+  y: math.Fraction;
+}
+
+// A value in exact or floating-point arithmetic, for code that runs in either
+type Scalar = math.Fraction | number;
+
+// Decimals typed with up to 10 places still count as rational; longer expansions such as
+// √2 = 1.4142135623730951 are treated as irrational and solved in floating point
+const MAX_EXACT_DENOMINATOR = 10n ** 10n;
+
+// Exact rational value of a coordinate, or null when it is not a short fraction or decimal
+function toExactRational(value: number): math.Fraction | null {
+  if (!isFinite(value)) return null;
+
+  // The continued-fraction conversion recovers 1/3 from 0.333…; the decimal string covers
+  // values like 123456.789 where it runs out of precision
+  for (const source of [value, String(value)]) {
+    try {
+      const fraction = math.fraction(source);
+      if (fraction.d <= MAX_EXACT_DENOMINATOR && math.number(fraction) === value) {
+        return fraction;
+      }
+    } catch (e) {
+      // Not parseable as a fraction, try the next representation
+    }
+  }
+
+  return null;
+}
+
+// Points as exact rationals, or null when any coordinate is irrational
+function toExactPoints(points: DataPoint[]): ExactPoint[] | null {
+  const exactPoints: ExactPoint[] = [];
+
+  for (const point of points) {
+    const x = toExactCoordinate(point.x, point.xText);
+    const y = toExactCoordinate(point.y, point.yText);
+    if (!x || !y) return null;
+    exactPoints.push({ x, y });
+  }
+
+  return exactPoints;
+}
+
+// The vector spanning the null space of a rational matrix, found by exact Gauss-Jordan
+// elimination; null unless the null space is exactly one-dimensional
+function rationalNullVector(matrix: math.Fraction[][]): math.Fraction[] | null {
+  const rows = matrix.map(row => row.slice());
+  const columns = rows[0]?.length ?? 0;
+  const pivotColumns: number[] = [];
+  let rank = 0;
+
+  for (let col = 0; col < columns && rank < rows.length; col++) {
+    const pivot = rows.findIndex((row, i) => i >= rank && row[col].n !== 0n);
+    if (pivot === -1) continue;
+
+    [rows[rank], rows[pivot]] = [rows[pivot], rows[rank]];
+    const pivotValue = rows[rank][col];
+    rows[rank] = rows[rank].map(value => math.divide(value, pivotValue) as math.Fraction);
+
+    for (let i = 0; i < rows.length; i++) {
+      const factor = rows[i][col];
+      if (i === rank || factor.n === 0n) continue;
+      rows[i] = rows[i].map(
+        (value, j) => math.subtract(value, math.multiply(factor, rows[rank][j])) as math.Fraction
+      );
+    }
+
+    pivotColumns.push(col);
+    rank++;
+  }
+
+  if (columns - rank !== 1) return null;
+
+  // Set the single free variable to 1 and read the pivot variables off the reduced rows
+  const free = [...Array(columns).keys()].find(col => !pivotColumns.includes(col)) as number;
+  const vector: math.Fraction[] = new Array(columns).fill(math.fraction(0));
+  vector[free] = math.fraction(1);
+  pivotColumns.forEach((col, row) => {
+    vector[col] = math.unaryMinus(rows[row][free]) as math.Fraction;
+  });
+
+  return vector;
+}
+
+// Square root of a fraction when it is itself rational, as in 25/4 → 5/2
+function exactSquareRoot(value: math.Fraction): math.Fraction | null {
+  if (value.s < 0n) return null;
+
+  const root = (n: bigint): bigint | null => {
+    const guess = BigInt(Math.round(Math.sqrt(Number(n))));
+    for (const candidate of [guess - 1n, guess, guess + 1n]) {
+      if (candidate >= 0n && candidate * candidate === n) return candidate;
+    }
+    return null;
+  };
+
+  const numerator = root(value.n);
+  const denominator = root(value.d);
+  if (numerator === null || denominator === null) return null;
+
+  return math.fraction(`${numerator}/${denominator}`);
+}
+
+// High-degree interpolants through equally spaced data swing far outside the data between
+// points (Runge's phenomenon); flag a fit whose overshoot exceeds half of the y range
+function detectRungeOscillation(
+  points: DataPoint[],
+  coefficients: Record<string, number>,
+  degree: number
+): string | undefined {
+  if (degree < 4) return undefined;
+
+  const ordered = Object.keys(coefficients)
+    .sort()
+    .map(name => coefficients[name]);
+  const xs = points.map(p => p.x);
+  const ys = points.map(p => p.y);
+  const xMin = Math.min(...xs);
+  const xMax = Math.max(...xs);
+  const yMin = Math.min(...ys);
+  const yMax = Math.max(...ys);
+  const yRange = yMax - yMin || 1;
+
+  let overshoot = 0;
+  const samples = 400;
+  for (let i = 0; i <= samples; i++) {
+    const x = xMin + ((xMax - xMin) * i) / samples;
+    const y = ordered.reduce((value, c) => value * x + c, 0);
+    overshoot = Math.max(overshoot, y - yMax, yMin - y);
+  }
+
+  if (overshoot <= 0.5 * yRange) return undefined;
+
+  const percent = Math.round((overshoot / yRange) * 100);
+  return `Degree ${degree} interpolant overshoots the data range by ${percent}% between points (Runge phenomenon). Consider a spline or fewer points.`;
+}
+
 // Circle equation: (x-h)² + (y-k)² = r²
 function solveCircle(points: DataPoint[], useFractions: boolean = true): SolverResult {
   if (points.length !== 3) {
@@ -240,6 +919,11 @@ function solveCircle(points: DataPoint[], useFractions: boolean = true): SolverR
   const B = [-(x1 ** 2 + y1 ** 2), -(x2 ** 2 + y2 ** 2), -(x3 ** 2 + y3 ** 2)];
 
   try {
+    const exactPoints = toExactPoints(points);
+    if (exactPoints) {
+      return solveCircleExact(exactPoints, useFractions);
+    }
+
     const solution = math.lusolve(A, B) as number[][];
     const D = solution[0][0];
     const E = solution[1][0];
@@ -269,44 +953,9 @@ function solveCircle(points: DataPoint[], useFractions: boolean = true): SolverR
       };
     }
 
-    let equation = '(x';
-    if (Math.abs(h) > 1e-10) {
-      const hFormatted = formatCoefficient(-h, true, useFractions, 6);
-      if (hFormatted !== '') {
-        equation += hFormatted;
-      }
-    }
-    equation += ')² + (y';
-    if (Math.abs(k) > 1e-10) {
-      const kFormatted = formatCoefficient(-k, true, useFractions, 6);
-      if (kFormatted !== '') {
-        equation += kFormatted;
-      }
-    }
-    equation += ')² = ';
-    equation += formatCoefficient(r, false, useFractions, 6) + '²';
-
-    let desmosEquation = '(x';
-    if (Math.abs(h) > 1e-10) {
-      const hFormatted = formatCoefficient(-h, true, useFractions, 6);
-      if (hFormatted !== '') {
-        desmosEquation += hFormatted;
-      }
-    }
-    desmosEquation += ')² + (y';
-    if (Math.abs(k) > 1e-10) {
-      const kFormatted = formatCoefficient(-k, true, useFractions, 6);
-      if (kFormatted !== '') {
-        desmosEquation += kFormatted;
-      }
-    }
-    desmosEquation += ')² = ';
-    desmosEquation += formatCoefficient(r, false, useFractions, 6) + '²';
-
     return {
       coefficients,
-      equation,
-      desmosEquation,
+      ...renderModel(circleModel(h, k, r, false)),
       rSquared,
     };
   } catch (e) {
@@ -319,6 +968,86 @@ function solveCircle(points: DataPoint[], useFractions: boolean = true): SolverR
   }
 }
 
+// Circle through three rational points, with h, k and r² computed exactly
+function solveCircleExact(points: ExactPoint[], useFractions: boolean): SolverResult {
+  // x² + y² + Dx + Ey + F = 0 gives rows [x, y, 1, x² + y²]·[D, E, F, 1] = 0
+  const rows = points.map(({ x, y }) => [
+    x,
+    y,
+    math.fraction(1),
+    math.add(math.multiply(x, x), math.multiply(y, y)) as math.Fraction,
+  ]);
+
+  const vector = rationalNullVector(rows);
+  if (!vector || vector[3].n === 0n) {
+    return {
+      coefficients: {},
+      equation: '',
+      desmosEquation: '',
+      error: 'Unable to solve circle equation - points may be collinear',
+    };
+  }
+
+  const [D, E, F] = vector.slice(0, 3).map(value => math.divide(value, vector[3]) as math.Fraction);
+  const half = math.fraction(-1, 2);
+  const h = math.multiply(D, half) as math.Fraction;
+  const k = math.multiply(E, half) as math.Fraction;
+  const radiusSquared = math.subtract(
+    math.add(math.multiply(h, h), math.multiply(k, k)),
+    F
+  ) as math.Fraction;
+
+  if (radiusSquared.s < 0n || radiusSquared.n === 0n) {
+    return {
+      coefficients: {},
+      equation: '',
+      desmosEquation: '',
+      error: 'Points do not form a valid circle - points may be collinear',
+    };
+  }
+
+  const coefficients = {
+    h: math.number(h),
+    k: math.number(k),
+    r: Math.sqrt(math.number(radiusSquared)),
+  };
+
+  const model = useFractions
+    ? exactCircleModel(h, k, radiusSquared)
+    : circleModel(coefficients.h, coefficients.k, coefficients.r, false);
+
+  return {
+    coefficients,
+    ...renderModel(model),
+    rSquared: math.number(radiusSquared),
+  };
+}
+
+// (x-h)² + (y-k)² = r², shared by the exact and least-squares circle solvers
+function circleModel(h: number, k: number, r: number, useFractions: boolean): ModelEquation {
+  return equation(
+    circleLeftSide(coefficientNode(h, useFractions, 6), coefficientNode(k, useFractions, 6)),
+    power(coefficientNode(r, useFractions, 6), 2)
+  );
+}
+
+// The same with exact fractions; r² is written out when r is irrational
+function exactCircleModel(
+  h: math.Fraction,
+  k: math.Fraction,
+  radiusSquared: math.Fraction
+): ModelEquation {
+  const r = exactSquareRoot(radiusSquared);
+  return equation(
+    circleLeftSide(exactNode(h), exactNode(k)),
+    r ? power(exactNode(r), 2) : exactNode(radiusSquared)
+  );
+}
+
+function circleLeftSide(h: NumberNode, k: NumberNode): Expression {
+  return sum(power(shiftedNode('x', h), 2), power(shiftedNode('y', k), 2));
+}
+
 // Conic equation: Ax² + Bxy + Cy² + Dx + Ey + F = 0
 function solveConic(points: DataPoint[], useFractions: boolean = true): SolverResult {
   if (points.length !== 5) {
@@ -330,43 +1059,26 @@ function solveConic(points: DataPoint[], useFractions: boolean = true): SolverRe
     };
   }
 
-  // Conic form: Ax² + Bxy + Cy² + Dx + Ey + F = 0
-  const A_matrix: number[][] = [];
-  const B_vector: number[] = [];
+  try {
+    const exactPoints = toExactPoints(points);
+    if (exactPoints) {
+      return solveConicExact(exactPoints, useFractions);
+    }
 
-  for (let i = 0; i < points.length; i++) {
-    const { x, y } = points[i];
-    A_matrix.push([x * x, x * y, y * y, x, y]);
-    B_vector.push(1); // Set F = -1, so right side is 1
-  }
+    // The conic is the null space of the 5×6 design matrix, so no coefficient has to be fixed
+    // in advance and curves through the origin (F = 0) are handled like any other
+    const { vector, isUnique } = fitConicNullSpace(points);
 
-  try {
-    const solution = math.lusolve(A_matrix, B_vector) as number[][];
-    const A = solution[0][0];
-    const B = solution[1][0];
-    const C = solution[2][0];
-    const D = solution[3][0];
-    const E = solution[4][0];
-    const F = -1; // We normalized with F = -1
-
-    // Determine conic type using discriminant: B² - 4AC
-    const discriminant = B * B - 4 * A * C;
-
-    let conicType = '';
-    if (Math.abs(discriminant) < 1e-10) {
-      conicType = 'Parabola';
-    } else if (discriminant > 0) {
-      conicType = 'Hyperbola';
-    } else {
-      // discriminant < 0
-      if (Math.abs(A - C) < 1e-10 && Math.abs(B) < 1e-10) {
-        conicType = 'Circle';
-      } else {
-        conicType = 'Ellipse';
-      }
+    if (!isUnique) {
+      return {
+        coefficients: {},
+        equation: '',
+        desmosEquation: '',
+        error: 'Points do not determine a unique conic - four or more points may be collinear',
+      };
     }
 
-    const coefficients = { A, B, C, D, E, F };
+    const coefficients = normalizeConicCoefficients(vector);
 
     if (!validateCoefficients(coefficients)) {
       return {
@@ -377,82 +1089,469 @@ function solveConic(points: DataPoint[], useFractions: boolean = true): SolverRe
       };
     }
 
-    let equation = '';
-    let desmosEquation = '';
+    const conicAnalysis = analyzeConic(coefficients);
 
-    // Build Conic equation: Ax² + Bxy + Cy² + Dx + Ey + F = 0
-    if (Math.abs(A) > 1e-10) {
-      equation += formatCoefficient(A, false, useFractions, 7) + 'x²';
-      desmosEquation += formatCoefficient(A, false, useFractions, 7) + 'x²';
-    }
+    return {
+      coefficients,
+      ...renderConicModel(conicModel(coefficients, false), conicAnalysis),
+      conicAnalysis,
+    };
+  } catch (e) {
+    return {
+      coefficients: {},
+      equation: '',
+      desmosEquation: '',
+      error: 'Unable to solve conic equation - points may be invalid',
+    };
+  }
+}
 
-    if (Math.abs(B) > 1e-10) {
-      const BFormatted = formatCoefficient(B, equation.length > 0, useFractions, 7);
-      if (BFormatted !== '') {
-        equation += BFormatted + 'xy';
-        desmosEquation += BFormatted + 'xy';
-      }
-    }
+// Conic through five rational points, solved exactly over the rationals
+function solveConicExact(points: ExactPoint[], useFractions: boolean): SolverResult {
+  const rows = points.map(({ x, y }) =>
+    [math.multiply(x, x), math.multiply(x, y), math.multiply(y, y), x, y, math.fraction(1)].map(
+      value => value as math.Fraction
+    )
+  );
 
-    if (Math.abs(C) > 1e-10) {
-      const CFormatted = formatCoefficient(C, equation.length > 0, useFractions, 7);
-      if (CFormatted !== '') {
-        equation += CFormatted + 'y²';
-        desmosEquation += CFormatted + 'y²';
-      }
-    }
+  const vector = rationalNullVector(rows);
+  if (!vector) {
+    return {
+      coefficients: {},
+      equation: '',
+      desmosEquation: '',
+      error: 'Points do not determine a unique conic - four or more points may be collinear',
+    };
+  }
 
-    if (Math.abs(D) > 1e-10) {
-      const DFormatted = formatCoefficient(D, equation.length > 0, useFractions, 7);
-      if (DFormatted !== '') {
-        equation += DFormatted + 'x';
-        desmosEquation += DFormatted + 'x';
-      }
-    }
+  // Same scaling as normalizeConicCoefficients: F = -1 when every term stays readable,
+  // otherwise the leading coefficient becomes 1
+  const F = vector[5];
+  const significant = vector.filter(value => value.n !== 0n);
+  const fitsUnitF =
+    F.n !== 0n &&
+    significant.every(value => {
+      const ratio = Math.abs(math.number(math.divide(value, F) as math.Fraction));
+      return ratio >= 1e-3 && ratio <= 1e6;
+    });
+  const divisor = fitsUnitF ? (math.unaryMinus(F) as math.Fraction) : significant[0];
+  const exact = vector.map(value => math.divide(value, divisor) as math.Fraction);
+
+  const names = ['A', 'B', 'C', 'D', 'E', 'F'];
+  const coefficients: Record<string, number> = {};
+  exact.forEach((value, i) => {
+    coefficients[names[i]] = math.number(value);
+  });
+
+  const conicAnalysis = analyzeConic(coefficients);
+  const model = useFractions
+    ? conicEquation(exact.map(exactNode))
+    : conicModel(coefficients, false);
+
+  return {
+    coefficients,
+    ...renderConicModel(model, conicAnalysis),
+    conicAnalysis,
+  };
+}
 
-    if (Math.abs(E) > 1e-10) {
-      const EFormatted = formatCoefficient(E, equation.length > 0, useFractions, 7);
-      if (EFormatted !== '') {
-        equation += EFormatted + 'y';
-        desmosEquation += EFormatted + 'y';
-      }
-    }
+// Least squares conic fit over N ≥ 5 points: minimizes the algebraic error with ‖coefficients‖ = 1
+function solveConicApproximation(points: DataPoint[], useFractions: boolean = true): SolverResult {
+  if (points.length < 5) {
+    return {
+      coefficients: {},
+      equation: '',
+      desmosEquation: '',
+      error: 'Need at least 5 points for conic approximation',
+    };
+  }
 
-    if (Math.abs(F) > 1e-10) {
-      const FFormatted = formatCoefficient(F, equation.length > 0, useFractions, 7);
-      if (FFormatted !== '') {
-        equation += FFormatted;
-        desmosEquation += FFormatted;
-      }
+  try {
+    const { vector, isUnique } = fitConicNullSpace(points);
+
+    if (!isUnique) {
+      return {
+        coefficients: {},
+        equation: '',
+        desmosEquation: '',
+        error: 'Points do not determine a unique conic - too many points may be collinear',
+      };
     }
 
-    equation += ' = 0';
-    desmosEquation += ' = 0';
+    const coefficients = normalizeConicCoefficients(vector);
 
-    if (equation.startsWith(' + ')) {
-      equation = equation.substring(3);
-      desmosEquation = desmosEquation.substring(3);
-    } else if (equation.startsWith(' - ')) {
-      equation = '-' + equation.substring(3);
-      desmosEquation = '-' + desmosEquation.substring(3);
+    if (!validateCoefficients(coefficients)) {
+      throw new Error('invalid coefficients');
     }
 
-    // Add conic type to the equation display
-    const finalEquation = `${conicType}: ${equation}`;
+    const conicAnalysis = analyzeConic(coefficients);
 
     return {
       coefficients,
-      equation: finalEquation,
-      desmosEquation,
+      ...renderConicModel(conicModel(coefficients, useFractions), conicAnalysis),
+      rSquared: calculateConicRSquared(points, coefficients),
+      conicAnalysis,
     };
   } catch (e) {
     return {
       coefficients: {},
       equation: '',
       desmosEquation: '',
-      error: 'Unable to solve conic equation - points may be invalid',
+      error: 'Unable to fit conic to the given points',
+    };
+  }
+}
+
+// Right singular vector of the smallest singular value of the conic design matrix
+// [x², xy, y², x, y, 1], computed in normalized coordinates and mapped back. Rows are scaled by
+// 1/σ, so points with larger uncertainties count for less. With more than five points the fit is
+// repeated with each row also divided by |∇F| under the previous conic, which turns the algebraic
+// residual into the Sampson distance that R² and the robust weights are measured in
+function fitConicNullSpace(points: DataPoint[]): { vector: number[]; isUnique: boolean } {
+  const transform = computeNormalization(points);
+  const weights = geometricWeights(points);
+  const normalized = points.map(p => ({
+    x: transform.scale * (p.x - transform.xMean),
+    y: transform.scale * (p.y - transform.yMean),
+  }));
+
+  let rowScales = weights;
+  let singular: Array<{ value: number; vector: number[] }> = [];
+  const passes = points.length > 5 ? 4 : 1;
+  for (let pass = 0; pass < passes; pass++) {
+    const design = normalized.map(({ x, y }, i) =>
+      [x * x, x * y, y * y, x, y, 1].map(value => value * rowScales[i])
+    );
+    singular = singularValueDecomposition(design);
+
+    const [a, b, c, d, e] = singular[0].vector;
+    const gradients = normalized.map(({ x, y }) =>
+      Math.hypot(2 * a * x + b * y + d, b * x + 2 * c * y + e)
+    );
+    // Floor near the center of the conic, where the gradient vanishes
+    const floor = 1e-3 * (gradients.reduce((sum, g) => sum + g, 0) / gradients.length);
+    if (!(floor > 0)) break;
+    rowScales = weights.map((weight, i) => weight / Math.max(gradients[i], floor));
+  }
+
+  const largest = singular[singular.length - 1].value;
+
+  // A second (near) zero singular value means a whole family of conics fits the points
+  const isUnique = singular[1].value > largest * 1e-9;
+
+  return { vector: denormalizeConic(singular[0].vector, transform), isUnique };
+}
+
+interface Normalization {
+  xMean: number;
+  yMean: number;
+  scale: number;
+}
+
+// Translate to the centroid and scale to a mean distance of √2 for numerical conditioning
+function computeNormalization(points: DataPoint[]): Normalization {
+  const n = points.length;
+  const xMean = points.reduce((sum, p) => sum + p.x, 0) / n;
+  const yMean = points.reduce((sum, p) => sum + p.y, 0) / n;
+  const meanDistance = points.reduce((sum, p) => sum + Math.hypot(p.x - xMean, p.y - yMean), 0) / n;
+
+  return { xMean, yMean, scale: meanDistance > 0 ? Math.SQRT2 / meanDistance : 1 };
+}
+
+// Substitute x' = s(x - mx), y' = s(y - my) back into a conic fitted in normalized coordinates
+function denormalizeConic(vector: number[], transform: Normalization): number[] {
+  const [a, b, c, d, e, f] = vector;
+  const { xMean: mx, yMean: my, scale: s } = transform;
+  const s2 = s * s;
+
+  return [
+    a * s2,
+    b * s2,
+    c * s2,
+    -2 * a * s2 * mx - b * s2 * my + d * s,
+    -b * s2 * mx - 2 * c * s2 * my + e * s,
+    a * s2 * mx * mx + b * s2 * mx * my + c * s2 * my * my - d * s * mx - e * s * my + f,
+  ];
+}
+
+// Scale conic coefficients for display: F = -1 when that keeps every term readable, otherwise
+// (conics through or far from the origin) the leading coefficient becomes 1
+function normalizeConicCoefficients(vector: number[]): Record<string, number> {
+  const cleaned = snapRoundOff(vector);
+  const significant = cleaned.filter(value => value !== 0);
+  const F = cleaned[5];
+
+  const fitsUnitF =
+    F !== 0 &&
+    significant.every(value => Math.abs(value / F) >= 1e-3 && Math.abs(value / F) <= 1e6);
+  const divisor = fitsUnitF ? -F : (significant[0] ?? 1);
+
+  const [A, B, C, D, E, Fn] = cleaned.map(value => value / divisor);
+  return { A, B, C, D, E, F: Fn };
+}
+
+const CONIC_KIND_LABELS: Record<ConicKind, string> = {
+  ellipse: 'Ellipse',
+  circle: 'Circle',
+  parabola: 'Parabola',
+  hyperbola: 'Hyperbola',
+  'imaginary ellipse': 'Imaginary ellipse',
+  point: 'Degenerate (single point)',
+  'intersecting lines': 'Degenerate (intersecting lines)',
+  'parallel lines': 'Degenerate (parallel lines)',
+  'coincident lines': 'Degenerate (coincident lines)',
+  'imaginary lines': 'Degenerate (no real points)',
+  line: 'Degenerate (single line)',
+};
+
+// Classify a conic with its discriminant and invariants, then reduce it to canonical form:
+// rotate by θ to remove the xy term, translate to the center (or vertex for parabolas)
+function analyzeConic(coefficients: Record<string, number>): ConicAnalysis {
+  const { A, B, C, D, E, F } = coefficients;
+  const scale = Math.max(
+    Math.abs(A),
+    Math.abs(B),
+    Math.abs(C),
+    Math.abs(D),
+    Math.abs(E),
+    Math.abs(F)
+  );
+  const tolerance = 1e-9;
+
+  const discriminant = B * B - 4 * A * C;
+  const determinant =
+    A * (C * F - (E * E) / 4) -
+    (B / 2) * ((B / 2) * F - (E * D) / 4) +
+    (D / 2) * ((B * E) / 4 - (C * D) / 2);
+
+  const isZeroDiscriminant = Math.abs(discriminant) <= tolerance * scale * scale;
+  const isDegenerate = Math.abs(determinant) <= tolerance * scale * scale * scale;
+  const base = { discriminant, determinant, isDegenerate };
+
+  // Without quadratic terms the "conic" is just the line Dx + Ey + F = 0
+  if (Math.max(Math.abs(A), Math.abs(B), Math.abs(C)) <= tolerance * scale) {
+    const point = Math.abs(E) > Math.abs(D) ? { x: 0, y: -F / E } : { x: -F / D, y: 0 };
+    return {
+      ...base,
+      kind: 'line',
+      isDegenerate: true,
+      lines: [{ point, angle: normalizeAxisAngle(Math.atan2(-D, E)) }],
+    };
+  }
+
+  // Rotation that eliminates the xy term, and the coefficients in the rotated (u, v) frame
+  const theta = 0.5 * Math.atan2(B, A - C);
+  const cos = Math.cos(theta);
+  const sin = Math.sin(theta);
+  const Ar = A * cos * cos + B * cos * sin + C * sin * sin;
+  const Cr = A * sin * sin - B * cos * sin + C * cos * cos;
+  const Dr = D * cos + E * sin;
+  const Er = -D * sin + E * cos;
+
+  const toWorld = (u: number, v: number): Point2D => ({
+    x: u * cos - v * sin,
+    y: u * sin + v * cos,
+  });
+
+  if (isZeroDiscriminant) {
+    // One of the rotated squared terms vanishes; name the surviving one `p` and its axis `along`
+    const uIsSquared = Math.abs(Ar) >= Math.abs(Cr);
+    const squared = uIsSquared ? Ar : Cr;
+    const linearSquared = uIsSquared ? Dr : Er;
+    const linearOther = uIsSquared ? Er : Dr;
+    const axisAngle = uIsSquared ? theta + Math.PI / 2 : theta;
+    const fromFrame = (along: number, across: number) =>
+      uIsSquared ? toWorld(along, across) : toWorld(across, along);
+
+    if (isDegenerate || Math.abs(linearOther) <= tolerance * scale) {
+      // squared·t² + linearSquared·t + F = 0 gives lines parallel to the axis
+      const roots = solveQuadraticRoots(squared, linearSquared, F);
+      const lines = roots.map(t => ({
+        point: fromFrame(t, 0),
+        angle: normalizeAxisAngle(axisAngle),
+      }));
+      const kind =
+        roots.length === 0
+          ? 'imaginary lines'
+          : roots.length === 1
+            ? 'coincident lines'
+            : 'parallel lines';
+      return { ...base, kind, isDegenerate: true, lines };
+    }
+
+    // squared·(t - t0)² = -linearOther·(s - s0), opening along the axis
+    const t0 = -linearSquared / (2 * squared);
+    const s0 = ((linearSquared * linearSquared) / (4 * squared) - F) / linearOther;
+    const focalLength = -linearOther / (4 * squared);
+
+    const vertex = fromFrame(t0, s0);
+    const focus = fromFrame(t0, s0 + focalLength);
+    const rotation = normalizeAngle(focalLength > 0 ? axisAngle : axisAngle + Math.PI);
+
+    return {
+      ...base,
+      kind: 'parabola',
+      rotation,
+      eccentricity: 1,
+      focalParameter: 2 * Math.abs(focalLength),
+      foci: [focus],
+      vertices: [vertex],
+      directrix: {
+        point: fromFrame(t0, s0 - focalLength),
+        angle: normalizeAxisAngle(axisAngle + Math.PI / 2),
+      },
+    };
+  }
+
+  // Central conics: the center is where the gradient vanishes
+  const denominator = 4 * A * C - B * B;
+  const center = {
+    x: (B * E - 2 * C * D) / denominator,
+    y: (B * D - 2 * A * E) / denominator,
+  };
+  const Fc = F + (D * center.x + E * center.y) / 2;
+
+  const offset = (distance: number, angle: number): Point2D => ({
+    x: center.x + distance * Math.cos(angle),
+    y: center.y + distance * Math.sin(angle),
+  });
+
+  if (isDegenerate) {
+    if (discriminant < 0) {
+      return { ...base, kind: 'point', center };
+    }
+    // Ar·u² + Cr·v² = 0 with opposite signs: two lines through the center
+    const spread = Math.atan(Math.sqrt(-Ar / Cr));
+    return {
+      ...base,
+      kind: 'intersecting lines',
+      center,
+      lines: [
+        { point: center, angle: normalizeAxisAngle(theta + spread) },
+        { point: center, angle: normalizeAxisAngle(theta - spread) },
+      ],
+    };
+  }
+
+  // Canonical form u²/p + v²/q = 1 in the rotated frame centered on the conic
+  const p = -Fc / Ar;
+  const q = -Fc / Cr;
+
+  if (discriminant < 0) {
+    if (p < 0 && q < 0) {
+      return { ...base, kind: 'imaginary ellipse', center };
+    }
+
+    const majorAlongU = p >= q;
+    const semiMajorAxis = Math.sqrt(majorAlongU ? p : q);
+    const semiMinorAxis = Math.sqrt(majorAlongU ? q : p);
+    const rotation = normalizeAxisAngle(majorAlongU ? theta : theta + Math.PI / 2);
+    const focalDistance = Math.sqrt(semiMajorAxis ** 2 - semiMinorAxis ** 2);
+
+    if (Math.abs(p - q) <= tolerance * Math.max(p, q)) {
+      return {
+        ...base,
+        kind: 'circle',
+        center,
+        rotation: 0,
+        semiMajorAxis,
+        semiMinorAxis: semiMajorAxis,
+        eccentricity: 0,
+        foci: [center],
+      };
+    }
+
+    return {
+      ...base,
+      kind: 'ellipse',
+      center,
+      rotation,
+      semiMajorAxis,
+      semiMinorAxis,
+      eccentricity: focalDistance / semiMajorAxis,
+      focalParameter: semiMinorAxis ** 2 / focalDistance,
+      foci: [offset(focalDistance, rotation), offset(-focalDistance, rotation)],
+      vertices: [offset(semiMajorAxis, rotation), offset(-semiMajorAxis, rotation)],
     };
   }
+
+  // Hyperbola: the transverse axis is the one with the positive canonical denominator
+  const transverseAlongU = p > 0;
+  const semiMajorAxis = Math.sqrt(transverseAlongU ? p : q);
+  const semiMinorAxis = Math.sqrt(transverseAlongU ? -q : -p);
+  const rotation = normalizeAxisAngle(transverseAlongU ? theta : theta + Math.PI / 2);
+  const focalDistance = Math.sqrt(semiMajorAxis ** 2 + semiMinorAxis ** 2);
+  const spread = Math.atan(semiMinorAxis / semiMajorAxis);
+
+  return {
+    ...base,
+    kind: 'hyperbola',
+    center,
+    rotation,
+    semiMajorAxis,
+    semiMinorAxis,
+    eccentricity: focalDistance / semiMajorAxis,
+    focalParameter: semiMinorAxis ** 2 / focalDistance,
+    foci: [offset(focalDistance, rotation), offset(-focalDistance, rotation)],
+    vertices: [offset(semiMajorAxis, rotation), offset(-semiMajorAxis, rotation)],
+    asymptotes: [
+      { point: center, angle: normalizeAxisAngle(rotation + spread) },
+      { point: center, angle: normalizeAxisAngle(rotation - spread) },
+    ],
+  };
+}
+
+// Real roots of a·t² + b·t + c = 0 (a ≠ 0), with a double root reported once
+function solveQuadraticRoots(a: number, b: number, c: number): number[] {
+  const discriminant = b * b - 4 * a * c;
+  const tolerance = 1e-12 * Math.max(b * b, Math.abs(4 * a * c), 1e-300);
+
+  if (discriminant < -tolerance) return [];
+  if (Math.abs(discriminant) <= tolerance) return [-b / (2 * a)];
+
+  const root = Math.sqrt(discriminant);
+  return [(-b + root) / (2 * a), (-b - root) / (2 * a)];
+}
+
+// Map a direction angle to (-π, π]
+function normalizeAngle(angle: number): number {
+  let result = angle % (2 * Math.PI);
+  if (result > Math.PI) result -= 2 * Math.PI;
+  if (result <= -Math.PI) result += 2 * Math.PI;
+  return result;
+}
+
+// Map an undirected axis or line angle to (-π/2, π/2]
+function normalizeAxisAngle(angle: number): number {
+  let result = angle % Math.PI;
+  if (result > Math.PI / 2) result -= Math.PI;
+  if (result <= -Math.PI / 2) result += Math.PI;
+  return result;
+}
+
+// Conic equation: Ax² + Bxy + Cy² + Dx + Ey + F = 0
+function conicModel(coefficients: Record<string, number>, useFractions: boolean): ModelEquation {
+  return conicEquation(
+    ['A', 'B', 'C', 'D', 'E', 'F'].map(name => coefficientNode(coefficients[name], useFractions, 7))
+  );
+}
+
+// The same from coefficient nodes in the order A to F, which may be exact fractions
+function conicEquation(coefficients: NumberNode[]): ModelEquation {
+  const x = symbol('x');
+  const y = symbol('y');
+  const variables = [[power(x, 2)], [x, y], [power(y, 2)], [x], [y], []];
+  return equation(sum(...coefficients.map((coef, i) => product(coef, ...variables[i]))), num(0));
+}
+
+// The text form is labelled with the kind of conic
+function renderConicModel(
+  model: ModelEquation,
+  analysis: ConicAnalysis
+): ReturnType<typeof renderModel> & Pick<SolverResult, 'modelLabel'> {
+  const rendered = renderModel(model);
+  const modelLabel = CONIC_KIND_LABELS[analysis.kind];
+  return { ...rendered, equation: `${modelLabel}: ${rendered.equation}`, modelLabel };
 }
 
 // Sine approximation: y = a * sin(bx + c) + d using Levenberg-Marquardt
@@ -479,17 +1578,9 @@ function solveSine(points: DataPoint[], useFractions: boolean = true): SolverRes
     let b_init = (2 * Math.PI) / (xRange * 0.5);
 
     // Detect periodicity using zero-crossings for better frequency estimation
-    const yShifted = y.map(yi => yi - yMean);
-    let crossings = 0;
-    for (let i = 1; i < yShifted.length; i++) {
-      if (yShifted[i] * yShifted[i - 1] < 0) crossings++;
-    }
-    if (crossings > 2) {
-      const estimatedPeriod = (2 * xRange) / crossings;
-      const freqEstimate = (2 * Math.PI) / estimatedPeriod;
-      if (freqEstimate > 0 && isFinite(freqEstimate)) {
-        b_init = freqEstimate;
-      }
+    const freqEstimate = estimateZeroCrossingFrequency(x, y, yMean);
+    if (freqEstimate !== null) {
+      b_init = freqEstimate;
     }
 
     // Phase estimation using least squares
@@ -555,7 +1646,7 @@ function solveSine(points: DataPoint[], useFractions: boolean = true): SolverRes
       if (Date.now() - startTime > maxTimeMs) break;
 
       try {
-        const result = levenbergMarquardt({ x, y }, sineFunction, {
+        const result = weightedLevenbergMarquardt(points, sineFunction, {
           initialValues,
           damping: 1.8,
           maxIterations: 200,
@@ -584,7 +1675,7 @@ function solveSine(points: DataPoint[], useFractions: boolean = true): SolverRes
     if (!bestResult) {
       // If no result found, try a simple fallback with basic parameters
       try {
-        const fallbackResult = levenbergMarquardt({ x, y }, sineFunction, {
+        const fallbackResult = weightedLevenbergMarquardt(points, sineFunction, {
           initialValues: [a_init, b_init, c_init, d_init],
           damping: 1.0,
           maxIterations: 50,
@@ -602,75 +1693,297 @@ function solveSine(points: DataPoint[], useFractions: boolean = true): SolverRes
       }
     }
 
-    const { a, b, c, d, rSquared } = bestResult;
+    const { rSquared } = bestResult;
+    const { a, b, c, d } = snapAffineCoefficients(points, Math.sin, bestResult);
 
-    // Build formatted equation with clean formatting
-    let equation = 'y = ';
-    let desmosEquation = 'y = ';
+    return {
+      coefficients: { a, b, c, d },
+      ...renderModel(affineModel(SINE_MODEL, a, b, c, d, useFractions)),
+      rSquared,
+    };
+  } catch (e) {
+    // If even the basic initialization fails, return a minimal sine wave
+    const yMean = points.reduce((sum, p) => sum + p.y, 0) / points.length;
+    const yRange = Math.max(...points.map(p => p.y)) - Math.min(...points.map(p => p.y));
+    const xRange = Math.max(...points.map(p => p.x)) - Math.min(...points.map(p => p.x));
 
-    // a * sin(bx + c) term
-    const aFormatted = formatCoefficient(a, false, useFractions);
-    const bFormatted = formatCoefficient(b, false, useFractions);
-    const cFormatted = formatCoefficient(c, true, useFractions);
+    const a = yRange / 2;
+    const b = (2 * Math.PI) / xRange;
 
-    if (Math.abs(a - 1) < 1e-10) {
-      equation += 'sin(';
-      desmosEquation += 'sin(';
-    } else if (Math.abs(a + 1) < 1e-10) {
-      equation += '-sin(';
-      desmosEquation += '-sin(';
-    } else {
-      equation += `${aFormatted} * sin(`;
-      desmosEquation += `${aFormatted} * sin(`;
+    return {
+      coefficients: { a, b, c: 0, d: yMean },
+      ...renderModel(affineModel(SINE_MODEL, a, b, 0, yMean, useFractions)),
+      rSquared: 0,
+    };
+  }
+}
+
+// y = a·f(bx + c) + d, the shape of the sine, logarithmic and exponential models
+function affineModel(
+  f: (argument: Expression) => Expression,
+  a: number,
+  b: number,
+  c: number,
+  d: number,
+  useFractions: boolean
+): ModelEquation {
+  const coef = (value: number) => coefficientNode(value, useFractions);
+  const argument = sum(product(coef(b), symbol('x')), coef(c));
+  return equation(symbol('y'), sum(product(coef(a), f(argument)), coef(d)));
+}
+
+// The same coefficients with the round-off snapped out of bx + c and out of the outer sum,
+// where f gives the size of the curve term over the data
+function snapAffineCoefficients(
+  points: DataPoint[],
+  f: (argument: number) => number,
+  { a, b, c, d }: { a: number; b: number; c: number; d: number }
+): { a: number; b: number; c: number; d: number } {
+  const [rate, phase] = snapRoundOff([b, c], [xExtent(points), 1]);
+  const curve = points
+    .map(p => Math.abs(f(rate * p.x + phase)))
+    .reduce((max, value) => (isFinite(value) ? Math.max(max, value) : max), 0);
+  const [amplitude, offset] = snapRoundOff([a, d], [curve, 1]);
+  return { a: amplitude, b: rate, c: phase, d: offset };
+}
+
+const SINE_MODEL = (argument: Expression) => call('sin', argument);
+const LOG_MODEL = (argument: Expression) => call('ln', argument);
+const EXPONENTIAL_MODEL = (argument: Expression) => power(symbol('e'), argument);
+
+// Angular frequency from the number of crossings of the given level (two per period)
+function estimateZeroCrossingFrequency(x: number[], y: number[], level: number): number | null {
+  const xRange = Math.max(...x) - Math.min(...x);
+  const yShifted = y.map(yi => yi - level);
+  let crossings = 0;
+  for (let i = 1; i < yShifted.length; i++) {
+    if (yShifted[i] * yShifted[i - 1] < 0) crossings++;
+  }
+  if (crossings > 2) {
+    const estimatedPeriod = (2 * xRange) / crossings;
+    const freqEstimate = (2 * Math.PI) / estimatedPeriod;
+    if (freqEstimate > 0 && isFinite(freqEstimate)) {
+      return freqEstimate;
     }
+  }
+  return null;
+}
 
-    if (Math.abs(b - 1) < 1e-10) {
-      equation += 'x';
-      desmosEquation += 'x';
-    } else if (Math.abs(b + 1) < 1e-10) {
-      equation += '-x';
-      desmosEquation += '-x';
-    } else {
-      equation += `${bFormatted}x`;
-      desmosEquation += `${bFormatted}x`;
+// Damped sinusoid approximation: y = a * e^(-λx) * sin(bx + c) + d using Levenberg-Marquardt
+function solveDampedSine(points: DataPoint[], useFractions: boolean = true): SolverResult {
+  if (points.length < 5) {
+    return {
+      coefficients: {},
+      equation: '',
+      desmosEquation: '',
+      error: 'Need at least 5 points for damped sine approximation',
+    };
+  }
+
+  try {
+    const sorted = [...points].sort((p, q) => p.x - q.x);
+    const x = sorted.map(p => p.x);
+    const y = sorted.map(p => p.y);
+    const n = sorted.length;
+    const xRange = x[n - 1] - x[0] || 1;
+
+    // A decayed signal settles on its offset, so the tail is a second estimate of d
+    const yMean = y.reduce((sum, val) => sum + val, 0) / n;
+    const tail = y.slice(Math.floor((3 * n) / 4));
+    const tailMean = tail.reduce((sum, val) => sum + val, 0) / tail.length;
+
+    const initialGuesses: number[][] = [];
+
+    for (const d_init of [yMean, tailMean]) {
+      const b_init = estimateZeroCrossingFrequency(x, y, d_init) ?? (2 * Math.PI) / (xRange * 0.5);
+      const { amplitude, decay } = estimateEnvelopeDecay(x, y, d_init);
+
+      // Phase from a grid search with the envelope held fixed
+      let c_init = 0;
+      let bestError = Infinity;
+      for (let phase = 0; phase < 2 * Math.PI; phase += Math.PI / 16) {
+        let error = 0;
+        for (let i = 0; i < n; i++) {
+          const predicted = amplitude * Math.exp(-decay * x[i]) * Math.sin(b_init * x[i] + phase);
+          error += (y[i] - d_init - predicted) ** 2;
+        }
+        if (error < bestError) {
+          bestError = error;
+          c_init = phase;
+        }
+      }
+
+      initialGuesses.push([amplitude, decay, b_init, c_init, d_init]);
+      for (const decayFactor of [0, 0.5, 2]) {
+        initialGuesses.push([amplitude, decay * decayFactor, b_init, c_init, d_init]);
+      }
+      for (const freqFactor of [0.5, 1.5, 2]) {
+        initialGuesses.push([amplitude, decay, b_init * freqFactor, c_init, d_init]);
+      }
+      for (let phase = 0; phase < 2 * Math.PI; phase += Math.PI / 2) {
+        initialGuesses.push([amplitude, decay, b_init, phase, d_init]);
+      }
+    }
+
+    function dampedSineFunction([a, lambda, b, c, d]: number[]) {
+      return (xi: number) => a * Math.exp(-lambda * xi) * Math.sin(b * xi + c) + d;
     }
 
-    if (Math.abs(c) > 1e-10) {
-      equation += cFormatted;
-      desmosEquation += cFormatted;
+    let bestResult: { parameters: number[]; rSquared: number } | null = null;
+    const startTime = Date.now();
+    const maxTimeMs = 2000; // 2 second limit
+
+    for (const initialValues of initialGuesses) {
+      if (Date.now() - startTime > maxTimeMs) break;
+      if (!initialValues.every(isFinite)) continue;
+
+      try {
+        const result = weightedLevenbergMarquardt(sorted, dampedSineFunction, {
+          initialValues,
+          damping: 1.8,
+          maxIterations: 200,
+          errorTolerance: 1e-9,
+          gradientDifference: 1e-8,
+        });
+
+        const predict = dampedSineFunction(result.parameterValues);
+        if (!x.every(xi => isFinite(predict(xi)))) continue;
+
+        const rSquared = calculateRSquared(sorted, predict);
+        if (isFinite(rSquared) && (!bestResult || rSquared > bestResult.rSquared)) {
+          bestResult = { parameters: result.parameterValues, rSquared };
+          if (rSquared > 0.9999) break;
+        }
+      } catch (e) {
+        // Try next initialization
+        continue;
+      }
     }
 
-    equation += ')';
-    desmosEquation += ')';
+    if (!bestResult) {
+      return {
+        coefficients: {},
+        equation: '',
+        desmosEquation: '',
+        error: 'Unable to fit a damped sinusoid to the given points',
+      };
+    }
 
-    // d constant term
-    if (Math.abs(d) > 1e-10) {
-      const dFormatted = formatCoefficient(d, true, useFractions);
-      equation += dFormatted;
-      desmosEquation += dFormatted;
+    // Keep a and b positive by folding their signs into the phase
+    let [a, lambda, b, c, d] = bestResult.parameters;
+    if (b < 0) {
+      b = -b;
+      c = -c + Math.PI;
+    }
+    if (a < 0) {
+      a = -a;
+      c += Math.PI;
+    }
+    c = normalizeAngle(c);
+    [b, c] = snapRoundOff([b, c], [xExtent(points), 1]);
+    const envelope = Math.max(
+      ...points.map(p => Math.abs(Math.exp(-lambda * p.x) * Math.sin(b * p.x + c)))
+    );
+    [a, d] = snapRoundOff([a, d], [envelope, 1]);
+
+    // Underdamped oscillator x'' + 2ζωₙx' + ωₙ²x = 0 has decay λ = ζωₙ and frequency b = ωₙ√(1 - ζ²)
+    const naturalFrequency = Math.hypot(lambda, b);
+    const coefficients: Record<string, number> = {
+      a,
+      lambda,
+      b,
+      c,
+      d,
+      dampingRatio: lambda / naturalFrequency,
+      naturalFrequency,
+    };
+    const coefficientLabels: Record<string, string> = {
+      dampingRatio: 'Damping ratio ζ',
+      naturalFrequency: 'Natural frequency ωₙ',
+    };
+    if (lambda > 0) {
+      coefficients.halfLife = Math.LN2 / lambda;
+      coefficientLabels.halfLife = 'Envelope half-life ln 2/λ';
     }
 
+    // a * e^(-λx) * sin(bx + c) + d
+    const coef = (value: number) => coefficientNode(value, useFractions);
+    const model = equation(
+      symbol('y'),
+      sum(
+        product(
+          coef(a),
+          power(symbol('e'), product(coef(-lambda), symbol('x'))),
+          call('sin', sum(product(coef(b), symbol('x')), coef(c)))
+        ),
+        coef(d)
+      )
+    );
+
     return {
-      coefficients: { a, b, c, d },
-      equation,
-      desmosEquation,
-      rSquared,
+      coefficients,
+      ...renderModel(model),
+      rSquared: Math.max(0, bestResult.rSquared),
+      coefficientLabels,
     };
   } catch (e) {
-    // If even the basic initialization fails, return a minimal sine wave
-    const yMean = points.reduce((sum, p) => sum + p.y, 0) / points.length;
-    const yRange = Math.max(...points.map(p => p.y)) - Math.min(...points.map(p => p.y));
-    const xRange = Math.max(...points.map(p => p.x)) - Math.min(...points.map(p => p.x));
-
     return {
-      coefficients: { a: yRange / 2, b: (2 * Math.PI) / xRange, c: 0, d: yMean },
-      equation: `y = ${formatCoefficient(yRange / 2, false, useFractions)} * sin(${formatCoefficient((2 * Math.PI) / xRange, false, useFractions)}x) + ${formatCoefficient(yMean, false, useFractions)}`,
-      desmosEquation: `y = ${formatCoefficient(yRange / 2, false, useFractions)} * sin(${formatCoefficient((2 * Math.PI) / xRange, false, useFractions)}x) + ${formatCoefficient(yMean, false, useFractions)}`,
-      rSquared: 0,
+      coefficients: {},
+      equation: '',
+      desmosEquation: '',
+      error: 'Unable to fit a damped sinusoid to the given points',
     };
   }
 }
 
+// Exponential envelope A·e^(-λx) through the local peaks of |y - level|, by linear regression
+// on ln|peak|. With fewer than two peaks the RMS of the first and second half is compared instead.
+function estimateEnvelopeDecay(
+  x: number[],
+  y: number[],
+  level: number
+): { amplitude: number; decay: number } {
+  const deviation = y.map(yi => Math.abs(yi - level));
+  const peaks: Array<{ x: number; value: number }> = [];
+  for (let i = 1; i < deviation.length - 1; i++) {
+    if (deviation[i] >= deviation[i - 1] && deviation[i] > deviation[i + 1] && deviation[i] > 0) {
+      peaks.push({ x: x[i], value: deviation[i] });
+    }
+  }
+
+  if (peaks.length >= 2) {
+    const n = peaks.length;
+    const sumX = peaks.reduce((sum, p) => sum + p.x, 0);
+    const sumLn = peaks.reduce((sum, p) => sum + Math.log(p.value), 0);
+    const sumXLn = peaks.reduce((sum, p) => sum + p.x * Math.log(p.value), 0);
+    const sumX2 = peaks.reduce((sum, p) => sum + p.x * p.x, 0);
+    const denominator = n * sumX2 - sumX * sumX;
+
+    if (Math.abs(denominator) > 1e-12) {
+      const slope = (n * sumXLn - sumX * sumLn) / denominator;
+      const intercept = (sumLn - slope * sumX) / n;
+      return { amplitude: Math.exp(intercept), decay: -slope };
+    }
+  }
+
+  // Fallback: compare the RMS deviation of the two halves of the data
+  const half = Math.floor(x.length / 2);
+  const rms = (values: number[]) =>
+    Math.sqrt(values.reduce((sum, val) => sum + val * val, 0) / Math.max(1, values.length));
+  const firstRms = rms(deviation.slice(0, half));
+  const secondRms = rms(deviation.slice(half));
+  const firstCenter = (x[0] + x[Math.max(0, half - 1)]) / 2;
+  const secondCenter = (x[half] + x[x.length - 1]) / 2;
+
+  const decay =
+    firstRms > 0 && secondRms > 0 && secondCenter > firstCenter
+      ? Math.log(firstRms / secondRms) / (secondCenter - firstCenter)
+      : 0;
+  const amplitude = Math.SQRT2 * firstRms * Math.exp(decay * firstCenter);
+
+  return { amplitude: amplitude || Math.max(...deviation), decay };
+}
+
 // Logarithmic approximation: y = a * ln(bx + c) + d using Levenberg-Marquardt
 function solveLog(points: DataPoint[], useFractions: boolean = true): SolverResult {
   if (points.length < 3) {
@@ -712,8 +2025,7 @@ function solveLog(points: DataPoint[], useFractions: boolean = true): SolverResu
       const yMean = y.reduce((sum, val) => sum + val, 0) / y.length;
       return {
         coefficients: { a: 1, b: 1, c: 0, d: yMean },
-        equation: `y = ln(x) + ${formatCoefficient(yMean, false, useFractions)}`,
-        desmosEquation: `y = ln(x) + ${formatCoefficient(yMean, false, useFractions)}`,
+        ...renderModel(affineModel(LOG_MODEL, 1, 1, 0, yMean, useFractions)),
         rSquared: 0,
       };
     }
@@ -756,7 +2068,7 @@ function solveLog(points: DataPoint[], useFractions: boolean = true): SolverResu
         const minArgument = Math.min(...x.map(xi => b * xi + c));
         if (minArgument <= 0) continue; // Skip invalid initial guess
 
-        const result = levenbergMarquardt({ x, y }, logFunction, {
+        const result = weightedLevenbergMarquardt(points, logFunction, {
           initialValues,
           damping: 1.8,
           maxIterations: 180,
@@ -793,7 +2105,7 @@ function solveLog(points: DataPoint[], useFractions: boolean = true): SolverResu
     if (!bestResult) {
       // If no result found, try a simple fallback with basic parameters
       try {
-        const fallbackResult = levenbergMarquardt({ x, y }, logFunction, {
+        const fallbackResult = weightedLevenbergMarquardt(points, logFunction, {
           initialValues: [a_init, b_init, c_init, d_init],
           damping: 1.0,
           maxIterations: 50,
@@ -814,58 +2126,12 @@ function solveLog(points: DataPoint[], useFractions: boolean = true): SolverResu
       }
     }
 
-    const { a, b, c, d, rSquared } = bestResult;
-
-    // Build formatted equation with proper coefficient handling
-    let equation = 'y = ';
-    let desmosEquation = 'y = ';
-
-    // a * ln(bx + c) term
-    const aFormatted = formatCoefficient(a, false, useFractions);
-    const bFormatted = formatCoefficient(b, false, useFractions);
-    const cFormatted = formatCoefficient(c, true, useFractions);
-
-    if (Math.abs(a - 1) < 1e-10) {
-      equation += 'ln(';
-      desmosEquation += 'ln(';
-    } else if (Math.abs(a + 1) < 1e-10) {
-      equation += '-ln(';
-      desmosEquation += '-ln(';
-    } else {
-      equation += `${aFormatted} * ln(`;
-      desmosEquation += `${aFormatted} * ln(`;
-    }
-
-    if (Math.abs(b - 1) < 1e-10) {
-      equation += 'x';
-      desmosEquation += 'x';
-    } else if (Math.abs(b + 1) < 1e-10) {
-      equation += '-x';
-      desmosEquation += '-x';
-    } else {
-      equation += `${bFormatted}x`;
-      desmosEquation += `${bFormatted}x`;
-    }
-
-    if (Math.abs(c) > 1e-10) {
-      equation += cFormatted;
-      desmosEquation += cFormatted;
-    }
-
-    equation += ')';
-    desmosEquation += ')';
-
-    // d constant term
-    if (Math.abs(d) > 1e-10) {
-      const dFormatted = formatCoefficient(d, true, useFractions);
-      equation += dFormatted;
-      desmosEquation += dFormatted;
-    }
+    const { rSquared } = bestResult;
+    const { a, b, c, d } = snapAffineCoefficients(points, Math.log, bestResult);
 
     return {
       coefficients: { a, b, c, d },
-      equation,
-      desmosEquation,
+      ...renderModel(affineModel(LOG_MODEL, a, b, c, d, useFractions)),
       rSquared,
     };
   } catch (e) {
@@ -887,8 +2153,7 @@ function solveLog(points: DataPoint[], useFractions: boolean = true): SolverResu
 
       return {
         coefficients: { a, b: 1, c: 0, d },
-        equation: `y = ${formatCoefficient(a, false, useFractions)} * ln(x) + ${formatCoefficient(d, false, useFractions)}`,
-        desmosEquation: `y = ${formatCoefficient(a, false, useFractions)} * ln(x) + ${formatCoefficient(d, false, useFractions)}`,
+        ...renderModel(affineModel(LOG_MODEL, a, 1, 0, d, useFractions)),
         rSquared: 0,
       };
     } catch (e2) {
@@ -896,8 +2161,7 @@ function solveLog(points: DataPoint[], useFractions: boolean = true): SolverResu
       const yMean = points.reduce((sum, p) => sum + p.y, 0) / points.length;
       return {
         coefficients: { a: 1, b: 1, c: 0, d: yMean },
-        equation: `y = ln(x) + ${formatCoefficient(yMean, false, useFractions)}`,
-        desmosEquation: `y = ln(x) + ${formatCoefficient(yMean, false, useFractions)}`,
+        ...renderModel(affineModel(LOG_MODEL, 1, 1, 0, yMean, useFractions)),
         rSquared: 0,
       };
     }
@@ -1025,7 +2289,7 @@ function solveExponential(points: DataPoint[], useFractions: boolean = true): So
         const testVal = exponentialFunction(initialValues)(x[0]);
         if (!isFinite(testVal)) continue;
 
-        const result = levenbergMarquardt({ x, y }, exponentialFunction, {
+        const result = weightedLevenbergMarquardt(points, exponentialFunction, {
           initialValues,
           damping: 2.2,
           maxIterations: 160,
@@ -1069,7 +2333,7 @@ function solveExponential(points: DataPoint[], useFractions: boolean = true): So
         // Use the most promising strategy result or create a basic estimate
         const fallbackInitial = strategy1Result || strategy2Result || [yRange, 1 / xRange, 0, yMin];
 
-        const fallbackResult = levenbergMarquardt({ x, y }, exponentialFunction, {
+        const fallbackResult = weightedLevenbergMarquardt(points, exponentialFunction, {
           initialValues: fallbackInitial,
           damping: 1.0,
           maxIterations: 50,
@@ -1095,58 +2359,12 @@ function solveExponential(points: DataPoint[], useFractions: boolean = true): So
       }
     }
 
-    const { a, b, c, d, rSquared } = bestResult;
-
-    // Build formatted equation with clean coefficient handling
-    let equation = 'y = ';
-    let desmosEquation = 'y = ';
-
-    // a * e^(bx + c) term
-    const aFormatted = formatCoefficient(a, false, useFractions);
-    const bFormatted = formatCoefficient(b, false, useFractions);
-    const cFormatted = formatCoefficient(c, true, useFractions);
-
-    if (Math.abs(a - 1) < 1e-10) {
-      equation += 'e^(';
-      desmosEquation += 'e^(';
-    } else if (Math.abs(a + 1) < 1e-10) {
-      equation += '-e^(';
-      desmosEquation += '-e^(';
-    } else {
-      equation += `${aFormatted} * e^(`;
-      desmosEquation += `${aFormatted} * e^(`;
-    }
-
-    if (Math.abs(b - 1) < 1e-10) {
-      equation += 'x';
-      desmosEquation += 'x';
-    } else if (Math.abs(b + 1) < 1e-10) {
-      equation += '-x';
-      desmosEquation += '-x';
-    } else {
-      equation += `${bFormatted}x`;
-      desmosEquation += `${bFormatted}x`;
-    }
-
-    if (Math.abs(c) > 1e-10) {
-      equation += cFormatted;
-      desmosEquation += cFormatted;
-    }
-
-    equation += ')';
-    desmosEquation += ')';
-
-    // d constant term
-    if (Math.abs(d) > 1e-10) {
-      const dFormatted = formatCoefficient(d, true, useFractions);
-      equation += dFormatted;
-      desmosEquation += dFormatted;
-    }
+    const { rSquared } = bestResult;
+    const { a, b, c, d } = snapAffineCoefficients(points, Math.exp, bestResult);
 
     return {
       coefficients: { a, b, c, d },
-      equation,
-      desmosEquation,
+      ...renderModel(affineModel(EXPONENTIAL_MODEL, a, b, c, d, useFractions)),
       rSquared,
     };
   } catch (e) {
@@ -1165,39 +2383,2586 @@ function solveExponential(points: DataPoint[], useFractions: boolean = true): So
 
     return {
       coefficients: { a, b, c: 0, d },
-      equation: `y = ${formatCoefficient(a, false, useFractions)} * e^(${formatCoefficient(b, false, useFractions)}x) + ${formatCoefficient(d, false, useFractions)}`,
-      desmosEquation: `y = ${formatCoefficient(a, false, useFractions)} * e^(${formatCoefficient(b, false, useFractions)}x) + ${formatCoefficient(d, false, useFractions)}`,
+      ...renderModel(affineModel(EXPONENTIAL_MODEL, a, b, 0, d, useFractions)),
       rSquared: 0,
     };
   }
 }
 
-function calculateRSquared(points: DataPoint[], predictFn: (x: number) => number): number {
-  const yMean = points.reduce((sum, p) => sum + p.y, 0) / points.length;
-  const ssRes = points.reduce((sum, p) => {
-    const predicted = predictFn(p.x);
-    return sum + (p.y - predicted) ** 2;
-  }, 0);
-  const ssTot = points.reduce((sum, p) => sum + (p.y - yMean) ** 2, 0);
-  return 1 - ssRes / ssTot;
-}
-
-function solveApproximationEquation(
-  equationType: ApproximationEquationType,
+// Power law approximation: y = a * x^b + c using Levenberg-Marquardt
+function solvePower(
   points: DataPoint[],
+  includeOffset: boolean = true,
   useFractions: boolean = true
 ): SolverResult {
-  switch (equationType) {
-    case ApproximationEquationType.SINE:
-      return solveSine(points, useFractions);
-    case ApproximationEquationType.LOG:
-      return solveLog(points, useFractions);
-    case ApproximationEquationType.EXPONENTIAL:
-      return solveExponential(points, useFractions);
+  if (points.length < 3) {
+    return {
+      coefficients: {},
+      equation: '',
+      desmosEquation: '',
+      error: 'Need at least 3 points for power law approximation',
+    };
+  }
+
+  // x^b is undefined for negative x with non-integer b, and ln(x) is needed for the initialization
+  const invalidPoint = points.find(p => p.x <= 0);
+  if (invalidPoint) {
+    return {
+      coefficients: {},
+      equation: '',
+      desmosEquation: '',
+      error: `Power law requires x > 0 for every point (found x = ${invalidPoint.x})`,
+    };
+  }
+
+  try {
+    const x = points.map(p => p.x);
+    const y = points.map(p => p.y);
+    const yMin = Math.min(...y);
+    const yMax = Math.max(...y);
+    const yRange = yMax - yMin || 1;
+    const lnX = x.map(xi => Math.log(xi));
+
+    // Log-log regression: ln|y - c| = ln|a| + b ln(x) for a given offset c
+    const logLogGuess = (c: number): number[] | null => {
+      const shifted = y.map(yi => yi - c);
+      const sign = shifted[0] < 0 ? -1 : 1;
+      if (!shifted.every(yi => yi * sign > 0)) return null;
+
+      const lnY = shifted.map(yi => Math.log(yi * sign));
+      const n = points.length;
+      const sumLnX = lnX.reduce((sum, val) => sum + val, 0);
+      const sumLnY = lnY.reduce((sum, val) => sum + val, 0);
+      const sumLnXLnY = lnX.reduce((sum, val, i) => sum + val * lnY[i], 0);
+      const sumLnX2 = lnX.reduce((sum, val) => sum + val * val, 0);
+
+      const denominator = n * sumLnX2 - sumLnX * sumLnX;
+      if (Math.abs(denominator) < 1e-10) return null;
+
+      const b = (n * sumLnXLnY - sumLnX * sumLnY) / denominator;
+      const a = sign * Math.exp((sumLnY - b * sumLnX) / n);
+      return [a, b, c];
+    };
+
+    const initialGuesses: number[][] = [];
+
+    // Strategy 1: plain log-log regression when all y share a sign
+    const strategy1 = logLogGuess(0);
+    if (strategy1) initialGuesses.push(strategy1);
+
+    // Strategy 2: shift the data just below its minimum (or above its maximum) first
+    if (includeOffset) {
+      for (const c of [yMin - 0.1 * yRange, yMax + 0.1 * yRange]) {
+        const guess = logLogGuess(c);
+        if (guess) initialGuesses.push(guess);
+      }
+
+      // Heuristic guesses for growing and saturating curves
+      initialGuesses.push([yRange, 1, yMin], [yRange, 0.5, yMin], [-yRange, -1, yMax]);
+    } else {
+      initialGuesses.push([yMax, 1, 0], [yMax, -1, 0]);
+    }
+
+    // The offset is held at zero when it is not part of the model
+    const powerFunction = includeOffset
+      ? ([a, b, c]: number[]) =>
+          (xi: number) =>
+            a * Math.pow(xi, b) + c
+      : ([a, b]: number[]) =>
+          (xi: number) =>
+            a * Math.pow(xi, b);
+
+    let bestResult: { a: number; b: number; c: number; rSquared: number } | null = null;
+
+    for (const guess of initialGuesses) {
+      const initialValues = includeOffset ? guess : guess.slice(0, 2);
+      if (!initialValues.every(isFinite)) continue;
+
+      try {
+        const result = weightedLevenbergMarquardt(points, powerFunction, {
+          initialValues,
+          damping: 1.5,
+          maxIterations: 200,
+          errorTolerance: 1e-9,
+          gradientDifference: 1e-7,
+        });
+
+        const [a, b, c = 0] = result.parameterValues;
+        const predict = (xi: number) => a * Math.pow(xi, b) + c;
+        if (!x.every(xi => isFinite(predict(xi)))) continue;
+
+        const rSquared = calculateRSquared(points, predict);
+        if (isFinite(rSquared) && (!bestResult || rSquared > bestResult.rSquared)) {
+          bestResult = { a, b, c, rSquared };
+          if (rSquared > 0.9999) break;
+        }
+      } catch (e) {
+        // Try next initialization
+        continue;
+      }
+    }
+
+    if (!bestResult) {
+      return {
+        coefficients: {},
+        equation: '',
+        desmosEquation: '',
+        error: 'Unable to fit a power law to the given points',
+      };
+    }
+
+    const { b } = bestResult;
+    const curve = Math.max(...points.map(p => Math.abs(p.x) ** b));
+    const [a, c] = snapRoundOff([bestResult.a, bestResult.c], [curve, 1]);
+    const rSquared = Math.max(0, bestResult.rSquared);
+
+    // a * x^b + c
+    const coef = (value: number) => coefficientNode(value, useFractions);
+    const model = equation(
+      symbol('y'),
+      sum(product(coef(a), power(symbol('x'), coef(b))), coef(c))
+    );
+
+    return {
+      coefficients: { a, b, c },
+      ...renderModel(model),
+      rSquared,
+    };
+  } catch (e) {
+    return {
+      coefficients: {},
+      equation: '',
+      desmosEquation: '',
+      error: 'Unable to fit a power law to the given points',
+    };
+  }
+}
+
+// Growth curve approximation using Levenberg-Marquardt:
+//   logistic  y = L / (1 + e^(-k(x - x0))) + d
+//   Gompertz  y = L * e^(-e^(-k(x - x0))) + d
+//   Richards  y = L / (1 + ν e^(-k(x - x0)))^(1/ν) + d
+// The shape ν is 1 for the logistic curve and 0 for the Gompertz limit
+function solveLogistic(
+  points: DataPoint[],
+  model: GrowthModel = 'logistic',
+  useFractions: boolean = true
+): SolverResult {
+  const parameterCount = model === 'richards' ? 5 : 4;
+  if (points.length < parameterCount) {
+    return {
+      coefficients: {},
+      equation: '',
+      desmosEquation: '',
+      error: `Need at least ${parameterCount} points for ${GROWTH_MODEL_LABELS[model]} approximation`,
+    };
+  }
+
+  try {
+    const sorted = [...points].sort((p, q) => p.x - q.x);
+    const x = sorted.map(p => p.x);
+    const y = sorted.map(p => p.y);
+    const n = sorted.length;
+    const xRange = x[n - 1] - x[0] || 1;
+    const yMin = Math.min(...y);
+    const yMax = Math.max(...y);
+    const yRange = yMax - yMin || 1;
+
+    // Plateaus from the mean of the outer quarter on each side
+    const edge = Math.max(1, Math.floor(n / 4));
+    const startPlateau = y.slice(0, edge).reduce((sum, val) => sum + val, 0) / edge;
+    const endPlateau = y.slice(n - edge).reduce((sum, val) => sum + val, 0) / edge;
+    const isIncreasing = endPlateau >= startPlateau;
+
+    // Inflection point: steepest secant in the direction of growth
+    let steepestSlope = 0;
+    let inflectionX = (x[0] + x[n - 1]) / 2;
+    for (let i = 0; i < n - 1; i++) {
+      const dx = x[i + 1] - x[i];
+      if (dx <= 0) continue;
+      const slope = ((y[i + 1] - y[i]) / dx) * (isIncreasing ? 1 : -1);
+      if (slope > steepestSlope) {
+        steepestSlope = slope;
+        inflectionX = (x[i] + x[i + 1]) / 2;
+      }
+    }
+
+    // Midpoint crossing as an alternative inflection estimate
+    const midLevel = (startPlateau + endPlateau) / 2;
+    let midpointX = inflectionX;
+    for (let i = 0; i < n - 1; i++) {
+      if ((y[i] - midLevel) * (y[i + 1] - midLevel) <= 0 && y[i + 1] !== y[i]) {
+        midpointX = x[i] + ((midLevel - y[i]) / (y[i + 1] - y[i])) * (x[i + 1] - x[i]);
+        break;
+      }
+    }
+
+    // The curve always rises from d to L + d; decreasing data uses a negative rate
+    const lower = isIncreasing ? Math.min(startPlateau, yMin) : Math.min(endPlateau, yMin);
+    const upper = isIncreasing ? Math.max(endPlateau, yMax) : Math.max(startPlateau, yMax);
+    const direction = isIncreasing ? 1 : -1;
+    const nu = model === 'gompertz' ? 0 : 1;
+
+    // Maximum slope is Lk/4 for the logistic curve and Lk/e for the Gompertz curve
+    const slopeFactor = model === 'gompertz' ? Math.E : 4;
+    const rateFromSlope =
+      steepestSlope > 0 ? (slopeFactor * steepestSlope) / (upper - lower || 1) : 0;
+
+    const seeds: number[][] = [];
+    for (const x0 of [inflectionX, midpointX]) {
+      for (const rate of [rateFromSlope, 4 / xRange, 10 / xRange]) {
+        if (rate > 0) seeds.push([upper - lower, direction * rate, x0, lower]);
+      }
+    }
+    // Data that has not reached its plateau yet: extend the capacity beyond the observed range
+    seeds.push([2 * (upper - lower), direction * (4 / xRange), x[isIncreasing ? n - 1 : 0], lower]);
+    seeds.push([yRange, direction * (4 / xRange), (x[0] + x[n - 1]) / 2, yMin]);
+
+    const growthFunction =
+      model === 'richards'
+        ? ([L, k, x0, d, shape]: number[]) =>
+            (xi: number) =>
+              evaluateGrowthCurve(xi, L, k, x0, d, shape)
+        : ([L, k, x0, d]: number[]) =>
+            (xi: number) =>
+              evaluateGrowthCurve(xi, L, k, x0, d, nu);
+
+    let bestResult: { parameters: number[]; rSquared: number } | null = null;
+    const shapes = model === 'richards' ? [1, 0.5, 2] : [nu];
+
+    for (const seed of seeds) {
+      for (const shape of shapes) {
+        const initialValues = model === 'richards' ? [...seed, shape] : seed;
+        if (!initialValues.every(isFinite)) continue;
+
+        try {
+          const result = weightedLevenbergMarquardt(sorted, growthFunction, {
+            initialValues,
+            damping: 1.5,
+            maxIterations: 200,
+            errorTolerance: 1e-9,
+            gradientDifference: 1e-7,
+            // Keep the Richards shape positive
+            minValues:
+              model === 'richards' ? [-Infinity, -Infinity, -Infinity, -Infinity, 1e-3] : undefined,
+          });
+
+          const parameters = result.parameterValues;
+          const [L, k, x0, d] = parameters;
+          const fittedShape = model === 'richards' ? parameters[4] : nu;
+          const predict = (xi: number) => evaluateGrowthCurve(xi, L, k, x0, d, fittedShape);
+          if (!x.every(xi => isFinite(predict(xi)))) continue;
+
+          const rSquared = calculateRSquared(sorted, predict);
+          if (isFinite(rSquared) && (!bestResult || rSquared > bestResult.rSquared)) {
+            bestResult = { parameters: [L, k, x0, d, fittedShape], rSquared };
+          }
+        } catch (e) {
+          // Try next initialization
+          continue;
+        }
+      }
+      if (bestResult && bestResult.rSquared > 0.9999) break;
+    }
+
+    if (!bestResult) {
+      return {
+        coefficients: {},
+        equation: '',
+        desmosEquation: '',
+        error: `Unable to fit a ${GROWTH_MODEL_LABELS[model]} curve to the given points`,
+      };
+    }
+
+    const [fittedL, k, fittedX0, fittedD, shape] = bestResult.parameters;
+    // x0 is shifted off x in x - x0, and d is added to the curve that reaches L
+    const [, x0] = snapRoundOff([xExtent(points), fittedX0]);
+    const [L, d] = snapRoundOff([fittedL, fittedD]);
+    const inflection = growthInflectionPoint(L, k, x0, d, shape);
+
+    return {
+      coefficients: {
+        L,
+        k,
+        x0,
+        d,
+        nu: shape,
+        inflectionX: inflection.x,
+        inflectionY: inflection.y,
+        carryingCapacity: L + d,
+      },
+      ...renderModel(growthCurveModel(L, k, x0, d, model, shape, useFractions)),
+      rSquared: Math.max(0, bestResult.rSquared),
+      coefficientLabels: {
+        inflectionX: 'Inflection point x',
+        inflectionY: 'Inflection point y',
+        carryingCapacity: 'Carrying capacity (L + d)',
+        ...(model === 'richards' ? { nu: 'Shape ν' } : {}),
+      },
+    };
+  } catch (e) {
+    return {
+      coefficients: {},
+      equation: '',
+      desmosEquation: '',
+      error: `Unable to fit a ${GROWTH_MODEL_LABELS[model]} curve to the given points`,
+    };
+  }
+}
+
+const GROWTH_MODEL_LABELS: Record<GrowthModel, string> = {
+  logistic: 'logistic',
+  gompertz: 'Gompertz',
+  richards: 'Richards',
+};
+
+function evaluateGrowthCurve(
+  x: number,
+  L: number,
+  k: number,
+  x0: number,
+  d: number,
+  nu: number
+): number {
+  const decay = Math.exp(-k * (x - x0));
+  if (nu === 0) {
+    return L * Math.exp(-decay) + d;
+  }
+  return L / Math.pow(1 + nu * decay, 1 / nu) + d;
+}
+
+// The inflection is where ν e^(-k(x - x0)) = 1, which is x = x0 for the logistic and Gompertz curves
+function growthInflectionPoint(
+  L: number,
+  k: number,
+  x0: number,
+  d: number,
+  nu: number
+): { x: number; y: number } {
+  if (nu === 0) {
+    return { x: x0, y: L / Math.E + d };
+  }
+  return { x: x0 + Math.log(nu) / k, y: L * Math.pow(1 + nu, -1 / nu) + d };
+}
+
+function growthCurveModel(
+  L: number,
+  k: number,
+  x0: number,
+  d: number,
+  model: GrowthModel,
+  nu: number,
+  useFractions: boolean
+): ModelEquation {
+  const coef = (value: number) => coefficientNode(value, useFractions);
+  // e^(-k(x - x0))
+  const center = coefficientNode(x0, useFractions, 6);
+  const decay = power(symbol('e'), product(coef(-k), shiftedNode('x', center)));
+
+  let curve: Expression;
+  if (model === 'gompertz') {
+    curve = product(coef(L), power(symbol('e'), negate(decay)));
+  } else if (model === 'richards') {
+    curve = quotient(coef(L), power(sum(num(1), product(coef(nu), decay)), coef(1 / nu)));
+  } else {
+    curve = quotient(coef(L), sum(num(1), decay));
+  }
+
+  return equation(symbol('y'), sum(curve, coef(d)));
+}
+
+// Fourier series approximation: y = a0 + Σ Aₙ sin(nωx + φₙ) for n = 1..N
+// The fundamental ω comes from a Lomb-Scargle periodogram (x may be unevenly spaced) and the
+// harmonic amplitudes from linear least squares at that frequency
+function solveFourier(
+  points: DataPoint[],
+  harmonics: number,
+  useFractions: boolean = true
+): SolverResult {
+  if (!Number.isInteger(harmonics) || harmonics < 1 || harmonics > 10) {
+    return {
+      coefficients: {},
+      equation: '',
+      desmosEquation: '',
+      error: 'Number of harmonics must be an integer from 1 to 10',
+    };
+  }
+
+  const parameterCount = 2 * harmonics + 2;
+  if (points.length < parameterCount) {
+    return {
+      coefficients: {},
+      equation: '',
+      desmosEquation: '',
+      error: `Need at least ${parameterCount} points for a Fourier series with ${harmonics} harmonic${harmonics === 1 ? '' : 's'}`,
+    };
+  }
+
+  try {
+    const sorted = [...points].sort((p, q) => p.x - q.x);
+    const x = sorted.map(p => p.x);
+    const y = sorted.map(p => p.y);
+    const span = x[x.length - 1] - x[0];
+
+    const spacings = x
+      .slice(1)
+      .map((xi, i) => xi - x[i])
+      .filter(dx => dx > 0)
+      .sort((p, q) => p - q);
+    if (span <= 0 || spacings.length === 0) {
+      return {
+        coefficients: {},
+        equation: '',
+        desmosEquation: '',
+        error: 'Need points with at least two distinct x values',
+      };
+    }
+    if (y.every(yi => yi === y[0])) {
+      return {
+        coefficients: {},
+        equation: '',
+        desmosEquation: '',
+        error: 'Unable to find a periodic component - all y values are equal',
+      };
+    }
+
+    // Search from one period over the data span up to the pseudo-Nyquist frequency of the
+    // median spacing, oversampling the natural resolution 1/span
+    const medianSpacing = spacings[Math.floor(spacings.length / 2)];
+    const minFrequency = 1 / span;
+    const maxFrequency = Math.max(1 / (2 * medianSpacing), 2 * minFrequency);
+    const step = Math.max(minFrequency / 5, (maxFrequency - minFrequency) / 4000);
+
+    const power: number[] = [];
+    const frequencies: number[] = [];
+    for (let f = minFrequency; f <= maxFrequency; f += step) {
+      frequencies.push(f);
+      power.push(lombScarglePower(x, y, 2 * Math.PI * f));
+    }
+
+    // Strongest periodogram peaks; one of them may be a harmonic rather than the fundamental,
+    // so their integer fractions are candidates too
+    const peaks = frequencies
+      .map((f, i) => ({ f, power: power[i], i }))
+      .filter(
+        ({ i }) =>
+          (i === 0 || power[i] >= power[i - 1]) &&
+          (i === power.length - 1 || power[i] >= power[i + 1])
+      )
+      .sort((p, q) => q.power - p.power)
+      .slice(0, 3);
+
+    // Weighted by 1/σy; σx would make the weights depend on the frequency being searched
+    const weights = residualSigmas(sorted).map(sigma => 1 / sigma);
+    const residual = (omega: number) => fitHarmonics(x, y, omega, harmonics, weights).rss;
+
+    let bestOmega = 0;
+    let bestRss = Infinity;
+    for (const peak of peaks) {
+      for (let m = 1; m <= harmonics; m++) {
+        const f = peak.f / m;
+        if (f < minFrequency / 2) break;
+
+        const rss = residual(2 * Math.PI * f);
+        if (rss < bestRss) {
+          bestRss = rss;
+          bestOmega = 2 * Math.PI * f;
+        }
+      }
+    }
+
+    if (!isFinite(bestRss)) {
+      return {
+        coefficients: {},
+        equation: '',
+        desmosEquation: '',
+        error: 'Unable to find a periodic component in the given points',
+      };
+    }
+
+    // Refine the fundamental within one grid step with a golden-section search
+    const width = (2 * Math.PI * step) / Math.max(1, Math.round((2 * Math.PI * step) / bestOmega));
+    bestOmega = goldenSectionMinimize(
+      residual,
+      Math.max(bestOmega - width, 1e-12),
+      bestOmega + width
+    );
+
+    // a cos(θ) + b sin(θ) = A sin(θ + φ) with A = √(a² + b²) and φ = atan2(a, b)
+    const harmonicFit = fitHarmonics(x, y, bestOmega, harmonics, weights);
+    const { sine, cosine } = harmonicFit;
+    const [constant, ...amplitudes] = snapRoundOff([
+      harmonicFit.constant,
+      ...sine.map((value, i) => Math.hypot(cosine[i], value)),
+    ]);
+    const coefficients: Record<string, number> = {
+      a0: constant,
+      omega: bestOmega,
+      period: (2 * Math.PI) / bestOmega,
+    };
+    const coefficientLabels: Record<string, string> = {
+      omega: 'Fundamental frequency ω',
+      period: 'Period 2π/ω',
+    };
+
+    const extent = xExtent(sorted);
+    for (let n = 1; n <= harmonics; n++) {
+      const phase = Math.atan2(cosine[n - 1], sine[n - 1]);
+      coefficients[`A${n}`] = amplitudes[n - 1];
+      coefficients[`phi${n}`] = snapRoundOff([n * bestOmega, phase], [extent, 1])[1];
+      coefficientLabels[`A${n}`] = `Harmonic ${n} amplitude`;
+      coefficientLabels[`phi${n}`] = `Harmonic ${n} phase (rad)`;
+    }
+
+    const rSquared = calculateRSquared(sorted, xi => evaluateFourier(xi, coefficients));
+
+    // One sine term per harmonic, then the constant
+    const coef = (value: number) => coefficientNode(value, useFractions);
+    const terms: Expression[] = [];
+    for (let n = 1; n <= harmonics; n++) {
+      const amplitude = coefficients[`A${n}`];
+      if (amplitude < 1e-10) continue;
+
+      const argument = sum(
+        product(coef(n * bestOmega), symbol('x')),
+        coef(coefficients[`phi${n}`])
+      );
+      terms.push(product(coef(amplitude), call('sin', argument)));
+    }
+    const model = equation(symbol('y'), sum(...terms, coef(constant)));
+
+    return {
+      coefficients,
+      ...renderModel(model),
+      rSquared: Math.max(0, rSquared),
+      coefficientLabels,
+    };
+  } catch (e) {
+    return {
+      coefficients: {},
+      equation: '',
+      desmosEquation: '',
+      error: 'Unable to fit a Fourier series to the given points',
+    };
+  }
+}
+
+// Lomb-Scargle normalized power at angular frequency ω for unevenly sampled data
+function lombScarglePower(x: number[], y: number[], omega: number): number {
+  const n = x.length;
+  const yMean = y.reduce((sum, val) => sum + val, 0) / n;
+  const variance = y.reduce((sum, val) => sum + (val - yMean) ** 2, 0) / (n - 1 || 1);
+  if (variance === 0) return 0;
+
+  // Time offset τ that makes the sine and cosine terms orthogonal
+  let sin2 = 0;
+  let cos2 = 0;
+  for (const xi of x) {
+    sin2 += Math.sin(2 * omega * xi);
+    cos2 += Math.cos(2 * omega * xi);
+  }
+  const tau = Math.atan2(sin2, cos2) / (2 * omega);
+
+  let cosSum = 0;
+  let sinSum = 0;
+  let cosSquares = 0;
+  let sinSquares = 0;
+  for (let i = 0; i < n; i++) {
+    const c = Math.cos(omega * (x[i] - tau));
+    const s = Math.sin(omega * (x[i] - tau));
+    cosSum += (y[i] - yMean) * c;
+    sinSum += (y[i] - yMean) * s;
+    cosSquares += c * c;
+    sinSquares += s * s;
+  }
+
+  const cosTerm = cosSquares > 1e-12 ? (cosSum * cosSum) / cosSquares : 0;
+  const sinTerm = sinSquares > 1e-12 ? (sinSum * sinSum) / sinSquares : 0;
+  return (cosTerm + sinTerm) / (2 * variance);
+}
+
+// Linear least squares for y ≈ c + Σ (aₙ cos(nωx) + bₙ sin(nωx)) at a fixed fundamental ω
+function fitHarmonics(
+  x: number[],
+  y: number[],
+  omega: number,
+  harmonics: number,
+  weights: number[] = x.map(() => 1)
+): { constant: number; cosine: number[]; sine: number[]; rss: number } {
+  const design = x.map(xi => {
+    const row = [1];
+    for (let n = 1; n <= harmonics; n++) {
+      row.push(Math.cos(n * omega * xi), Math.sin(n * omega * xi));
+    }
+    return row;
+  });
+
+  let solution: number[];
+  try {
+    solution = solveLeastSquares(
+      design.map((row, i) => row.map(value => value * weights[i])),
+      y.map((value, i) => value * weights[i])
+    );
+  } catch (e) {
+    // Aliased harmonics make the design matrix rank deficient
+    return { constant: 0, cosine: [], sine: [], rss: Infinity };
+  }
+
+  const rss = design.reduce((sum, row, i) => {
+    const predicted = row.reduce((value, term, j) => value + term * solution[j], 0);
+    return sum + ((y[i] - predicted) * weights[i]) ** 2;
+  }, 0);
+
+  return {
+    constant: solution[0],
+    cosine: Array.from({ length: harmonics }, (_, n) => solution[1 + 2 * n]),
+    sine: Array.from({ length: harmonics }, (_, n) => solution[2 + 2 * n]),
+    rss,
+  };
+}
+
+function evaluateFourier(x: number, coefficients: Record<string, number>): number {
+  let value = coefficients.a0;
+  for (let n = 1; coefficients[`A${n}`] !== undefined; n++) {
+    value += coefficients[`A${n}`] * Math.sin(n * coefficients.omega * x + coefficients[`phi${n}`]);
+  }
+  return value;
+}
+
+// Minimum of a unimodal function on [low, high]
+function goldenSectionMinimize(f: (t: number) => number, low: number, high: number): number {
+  const ratio = (Math.sqrt(5) - 1) / 2;
+  let a = low;
+  let b = high;
+  let c = b - ratio * (b - a);
+  let d = a + ratio * (b - a);
+  let fc = f(c);
+  let fd = f(d);
+
+  for (let iter = 0; iter < 60 && b - a > 1e-12 * Math.max(1, Math.abs(b)); iter++) {
+    if (fc < fd) {
+      b = d;
+      d = c;
+      fd = fc;
+      c = b - ratio * (b - a);
+      fc = f(c);
+    } else {
+      a = c;
+      c = d;
+      fc = fd;
+      d = a + ratio * (b - a);
+      fd = f(d);
+    }
+  }
+
+  return (a + b) / 2;
+}
+
+// Custom model approximation: y = f(x; p₁, p₂, ...) parsed from a mathjs expression and fitted
+// with Levenberg-Marquardt. Every free symbol other than x and the built-in constants is a parameter.
+function solveCustomModel(
+  points: DataPoint[],
+  expression: string,
+  settings: Record<string, CustomParameterSettings> = {},
+  useFractions: boolean = true
+): SolverResult {
+  const model = parseCustomModel(expression);
+  if (model.error || !model.node) {
+    return {
+      coefficients: {},
+      equation: '',
+      desmosEquation: '',
+      error: model.error ?? 'Enter a model expression',
+    };
+  }
+
+  const { node, parameters } = model;
+  if (points.length < parameters.length) {
+    return {
+      coefficients: {},
+      equation: '',
+      desmosEquation: '',
+      error: `Need at least ${parameters.length} points to fit ${parameters.length} parameters`,
+    };
+  }
+
+  try {
+    const x = points.map(p => p.x);
+    const compiled = node.compile();
+
+    const customFunction = (values: number[]) => {
+      const scope: Record<string, number> = {};
+      parameters.forEach((name, i) => (scope[name] = values[i]));
+      return (xi: number) => {
+        scope.x = xi;
+        const value = compiled.evaluate(scope);
+        return typeof value === 'number' ? value : NaN;
+      };
+    };
+
+    const minValues = parameters.map(name => settings[name]?.min ?? -Infinity);
+    const maxValues = parameters.map(name => settings[name]?.max ?? Infinity);
+    const clamp = (value: number, i: number) =>
+      Math.min(maxValues[i], Math.max(minValues[i], value));
+    const initial = parameters.map((name, i) => clamp(settings[name]?.initial ?? 1, i));
+
+    // The user's guess first, then scaled copies in case it is far off
+    const initialGuesses = [1, 0.5, 2, 0.1, 10, -1].map(factor =>
+      initial.map((value, i) => clamp(value * factor, i))
+    );
+
+    let bestResult: { values: number[]; rSquared: number } | null = null;
+
+    for (const initialValues of initialGuesses) {
+      try {
+        if (!x.every(xi => isFinite(customFunction(initialValues)(xi)))) continue;
+
+        const result = weightedLevenbergMarquardt(points, customFunction, {
+          initialValues,
+          minValues,
+          maxValues,
+          damping: 1.5,
+          maxIterations: 200,
+          errorTolerance: 1e-9,
+          gradientDifference: 1e-7,
+        });
+
+        const predict = customFunction(result.parameterValues);
+        if (!x.every(xi => isFinite(predict(xi)))) continue;
+
+        const rSquared = calculateRSquared(points, predict);
+        if (isFinite(rSquared) && (!bestResult || rSquared > bestResult.rSquared)) {
+          bestResult = { values: result.parameterValues, rSquared };
+          if (rSquared > 0.9999) break;
+        }
+      } catch (e) {
+        // Try next initialization
+        continue;
+      }
+    }
+
+    if (!bestResult) {
+      return {
+        coefficients: {},
+        equation: '',
+        desmosEquation: '',
+        error: 'Unable to fit the model - it is undefined at some points for every starting guess',
+      };
+    }
+
+    // Without the model's structure to go on, the parameters are only compared with each other
+    const values = snapRoundOff(bestResult.values);
+    const coefficients: Record<string, number> = {};
+    parameters.forEach((name, i) => (coefficients[name] = values[i]));
+
+    // Substitute the fitted values back into the expression
+    const fitted = fromMathNode(node, name =>
+      coefficients[name] === undefined
+        ? undefined
+        : coefficientNode(coefficients[name], useFractions, 6)
+    );
+
+    return {
+      coefficients,
+      ...renderModel(equation(symbol('y'), fitted)),
+      rSquared: Math.max(0, bestResult.rSquared),
+      customExpression: node.toString(),
+    };
+  } catch (e) {
+    return {
+      coefficients: {},
+      equation: '',
+      desmosEquation: '',
+      error: `Unable to fit the model: ${e instanceof Error ? e.message : 'evaluation failed'}`,
+    };
+  }
+}
+
+// Symbols that mathjs resolves to constants rather than treating as parameters
+const CUSTOM_MODEL_CONSTANTS = ['e', 'E', 'pi', 'PI', 'tau', 'Infinity', 'NaN'];
+
+// mathjs functions that could change the parser state or evaluate nested code
+const CUSTOM_MODEL_BLOCKED_FUNCTIONS = [
+  'import',
+  'createUnit',
+  'evaluate',
+  'parse',
+  'compile',
+  'simplify',
+  'derivative',
+  'resolve',
+  'chain',
+  'config',
+  'reviver',
+];
+
+// Parse a custom model and list its parameters in order of first appearance
+export function parseCustomModel(expression: string): {
+  node?: math.MathNode;
+  parameters: string[];
+  error?: string;
+} {
+  // "y = ..." is accepted as a convenience
+  const body = expression.replace(/^\s*y\s*=/, '');
+  if (!body.trim()) {
+    return { parameters: [], error: 'Enter a model expression' };
+  }
+
+  let node: math.MathNode;
+  try {
+    node = math.parse(body);
+  } catch (e) {
+    return { parameters: [], error: `Invalid expression: ${e instanceof Error ? e.message : e}` };
+  }
+
+  const parameters: string[] = [];
+  let usesX = false;
+  let error: string | undefined;
+
+  node.traverse((child, path, parent) => {
+    if (
+      math.isAssignmentNode(child) ||
+      math.isFunctionAssignmentNode(child) ||
+      math.isBlockNode(child) ||
+      math.isAccessorNode(child) ||
+      math.isObjectNode(child)
+    ) {
+      error ??= 'Only a single expression in x and parameters is allowed';
+    } else if (
+      math.isFunctionNode(child) &&
+      CUSTOM_MODEL_BLOCKED_FUNCTIONS.includes(child.fn.name)
+    ) {
+      error ??= `Function "${child.fn.name}" is not allowed in a model`;
+    } else if (
+      math.isFunctionNode(child) &&
+      typeof (math as unknown as Record<string, unknown>)[child.fn.name] !== 'function'
+    ) {
+      error ??= `Unknown function "${child.fn.name}"`;
+    } else if (math.isSymbolNode(child) && !(math.isFunctionNode(parent) && path === 'fn')) {
+      if (child.name === 'x') {
+        usesX = true;
+      } else if (!CUSTOM_MODEL_CONSTANTS.includes(child.name) && !parameters.includes(child.name)) {
+        parameters.push(child.name);
+      }
+    }
+  });
+
+  if (error) {
+    return { parameters, error };
+  }
+  if (!usesX) {
+    return { parameters, error: 'The model must depend on x' };
+  }
+  if (parameters.length === 0) {
+    return { parameters, error: 'The model has no parameters to fit' };
+  }
+
+  return { node, parameters };
+}
+
+// Cubic spline interpolation through N points. Each piece on [xᵢ, xᵢ₊₁] is
+// y = aᵢ + bᵢ(x - xᵢ) + cᵢ(x - xᵢ)² + dᵢ(x - xᵢ)³
+function solveSpline(
+  points: DataPoint[],
+  splineType: SplineType,
+  endSlopes: [number, number] = [0, 0],
+  useFractions: boolean = true
+): SolverResult {
+  if (points.length < 3) {
+    return {
+      coefficients: {},
+      equation: '',
+      desmosEquation: '',
+      error: 'Need at least 3 points for spline interpolation',
+    };
+  }
+
+  const sorted = [...points].sort((p, q) => p.x - q.x);
+  for (let i = 1; i < sorted.length; i++) {
+    if (sorted[i].x === sorted[i - 1].x) {
+      return {
+        coefficients: {},
+        equation: '',
+        desmosEquation: '',
+        error: `Spline interpolation needs distinct x values (x = ${sorted[i].x} appears more than once)`,
+      };
+    }
+  }
+
+  try {
+    const x = sorted.map(p => p.x);
+    const y = sorted.map(p => p.y);
+    const pieces = (
+      splineType === 'pchip'
+        ? buildPchipPieces(x, y)
+        : buildCubicSplinePieces(x, y, splineType, endSlopes)
+    ).map(piece => {
+      const width = piece.xEnd - piece.xStart;
+      return {
+        ...piece,
+        coefficients: snapRoundOff(piece.coefficients, [
+          1,
+          width,
+          width ** 2,
+          width ** 3,
+        ]) as SplinePiece['coefficients'],
+      };
+    });
+
+    const coefficients: Record<string, number> = {};
+    pieces.forEach((piece, i) => {
+      ['a', 'b', 'c', 'd'].forEach((name, j) => {
+        coefficients[`${name}${i + 1}`] = piece.coefficients[j];
+      });
+    });
+
+    if (!validateCoefficients(coefficients)) {
+      return {
+        coefficients: {},
+        equation: '',
+        desmosEquation: '',
+        error: 'Unable to build spline - invalid coefficients',
+      };
+    }
+
+    const model = equation(
+      symbol('y'),
+      piecewise(
+        pieces.map(piece => ({
+          expression: localCubic(piece, useFractions),
+          from: coefficientNode(piece.xStart, useFractions, 6),
+          to: coefficientNode(piece.xEnd, useFractions, 6),
+        }))
+      )
+    );
+
+    return {
+      coefficients,
+      ...renderModel(model),
+      pieces,
+    };
+  } catch (e) {
+    return {
+      coefficients: {},
+      equation: '',
+      desmosEquation: '',
+      error: 'Unable to build spline through the given points',
+    };
+  }
+}
+
+// Natural, clamped and not-a-knot splines from the second derivatives Mᵢ at the knots
+function buildCubicSplinePieces(
+  x: number[],
+  y: number[],
+  splineType: SplineType,
+  endSlopes: [number, number]
+): SplinePiece[] {
+  const n = x.length;
+  const h = x.slice(1).map((xi, i) => xi - x[i]);
+  const delta = h.map((hi, i) => (y[i + 1] - y[i]) / hi);
+
+  if (splineType === 'not-a-knot' && n === 3) {
+    // With three points both conditions collapse to the parabola through them, written out
+    // directly since the 3×3 system would leave round-off in the cubic terms
+    const c = (delta[1] - delta[0]) / (h[0] + h[1]);
+    return h.map((hi, i) => ({
+      xStart: x[i],
+      xEnd: x[i + 1],
+      coefficients: [y[i], delta[i] - c * hi, c, 0],
+    }));
+  }
+
+  const A = Array.from({ length: n }, () => new Array<number>(n).fill(0));
+  const B = new Array<number>(n).fill(0);
+
+  // Continuity of the first derivative at the interior knots
+  for (let i = 1; i < n - 1; i++) {
+    A[i][i - 1] = h[i - 1];
+    A[i][i] = 2 * (h[i - 1] + h[i]);
+    A[i][i + 1] = h[i];
+    B[i] = 6 * (delta[i] - delta[i - 1]);
+  }
+
+  const last = n - 1;
+  if (splineType === 'clamped') {
+    // Prescribed first derivatives at both ends
+    A[0][0] = 2 * h[0];
+    A[0][1] = h[0];
+    B[0] = 6 * (delta[0] - endSlopes[0]);
+    A[last][last - 1] = h[last - 1];
+    A[last][last] = 2 * h[last - 1];
+    B[last] = 6 * (endSlopes[1] - delta[last - 1]);
+  } else if (splineType === 'not-a-knot') {
+    // Continuous third derivative at the second and second-to-last knots
+    A[0][0] = h[1];
+    A[0][1] = -(h[0] + h[1]);
+    A[0][2] = h[0];
+    A[last][last - 2] = h[last - 1];
+    A[last][last - 1] = -(h[last - 2] + h[last - 1]);
+    A[last][last] = h[last - 2];
+  } else {
+    // Natural: zero curvature at both ends
+    A[0][0] = 1;
+    A[last][last] = 1;
+  }
+
+  const M = (math.lusolve(A, B) as number[][]).map(row => row[0]);
+
+  return h.map((hi, i) => ({
+    xStart: x[i],
+    xEnd: x[i + 1],
+    coefficients: [
+      y[i],
+      delta[i] - (hi * (2 * M[i] + M[i + 1])) / 6,
+      M[i] / 2,
+      (M[i + 1] - M[i]) / (6 * hi),
+    ],
+  }));
+}
+
+// Monotone piecewise cubic Hermite interpolation (Fritsch-Carlson slopes, as in PCHIP)
+function buildPchipPieces(x: number[], y: number[]): SplinePiece[] {
+  const n = x.length;
+  const h = x.slice(1).map((xi, i) => xi - x[i]);
+  const delta = h.map((hi, i) => (y[i + 1] - y[i]) / hi);
+  const slopes = new Array<number>(n).fill(0);
+
+  // Interior slopes: weighted harmonic mean of the neighbouring secants, zero at local extrema
+  for (let i = 1; i < n - 1; i++) {
+    if (delta[i - 1] * delta[i] > 0) {
+      const w1 = 2 * h[i] + h[i - 1];
+      const w2 = h[i] + 2 * h[i - 1];
+      slopes[i] = (w1 + w2) / (w1 / delta[i - 1] + w2 / delta[i]);
+    }
+  }
+
+  // End slopes: one-sided three-point estimate, limited so the end pieces stay monotone
+  const endSlope = (h0: number, h1: number, d0: number, d1: number) => {
+    const slope = ((2 * h0 + h1) * d0 - h0 * d1) / (h0 + h1);
+    if (Math.sign(slope) !== Math.sign(d0)) return 0;
+    if (Math.sign(d0) !== Math.sign(d1) && Math.abs(slope) > Math.abs(3 * d0)) return 3 * d0;
+    return slope;
+  };
+  slopes[0] = endSlope(h[0], h[1], delta[0], delta[1]);
+  slopes[n - 1] = endSlope(h[n - 2], h[n - 3], delta[n - 2], delta[n - 3]);
+
+  return h.map((hi, i) => ({
+    xStart: x[i],
+    xEnd: x[i + 1],
+    coefficients: [
+      y[i],
+      slopes[i],
+      (3 * delta[i] - 2 * slopes[i] - slopes[i + 1]) / hi,
+      (slopes[i] + slopes[i + 1] - 2 * delta[i]) / (hi * hi),
+    ],
+  }));
+}
+
+// a + b(x - x₀) + c(x - x₀)² + d(x - x₀)³ for one spline piece
+function localCubic(piece: SplinePiece, useFractions: boolean): Expression {
+  const shifted = shiftedNode('x', coefficientNode(piece.xStart, useFractions, 6));
+  return sum(
+    ...piece.coefficients.map((coef, exponent) =>
+      product(
+        coefficientNode(coef, useFractions, 6),
+        ...(exponent === 0 ? [] : [exponent === 1 ? shifted : power(shifted, exponent)])
+      )
+    )
+  );
+}
+
+function evaluateSpline(pieces: SplinePiece[], x: number): number {
+  if (pieces.length === 0 || x < pieces[0].xStart || x > pieces[pieces.length - 1].xEnd) {
+    return NaN;
+  }
+
+  // Binary search for the piece whose interval contains x
+  let low = 0;
+  let high = pieces.length - 1;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (x > pieces[mid].xEnd) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+
+  const [a, b, c, d] = pieces[low].coefficients;
+  const t = x - pieces[low].xStart;
+  return a + t * (b + t * (c + t * d));
+}
+
+// Polynomial regression: y = aₙxⁿ + ... + a₁x + a₀ fitted by least squares over N points
+function solvePolynomialRegression(
+  points: DataPoint[],
+  degree: number,
+  useFractions: boolean = true
+): SolverResult {
+  if (!Number.isInteger(degree) || degree < 1 || degree > 10) {
+    return {
+      coefficients: {},
+      equation: '',
+      desmosEquation: '',
+      error: 'Polynomial degree must be an integer between 1 and 10',
+    };
+  }
+
+  const requiredPoints = degree + 1;
+  if (points.length < requiredPoints) {
+    return {
+      coefficients: {},
+      equation: '',
+      desmosEquation: '',
+      error: `Need at least ${requiredPoints} points for degree ${degree} polynomial regression`,
+    };
+  }
+
+  const distinctX = new Set(points.map(p => p.x)).size;
+  if (distinctX < requiredPoints) {
+    return {
+      coefficients: {},
+      equation: '',
+      desmosEquation: '',
+      error: `Need at least ${requiredPoints} distinct x values for degree ${degree} polynomial regression`,
+    };
+  }
+
+  try {
+    const n = points.length;
+
+    // Fit in centered and scaled t = (x - xMean) / xScale to keep the design matrix well conditioned
+    const xMean = points.reduce((sum, p) => sum + p.x, 0) / n;
+    const xScale = Math.max(...points.map(p => Math.abs(p.x - xMean))) || 1;
+
+    const A = points.map(p => {
+      const t = (p.x - xMean) / xScale;
+      return Array.from({ length: degree + 1 }, (_, j) => t ** j);
+    });
+    const solveWeighted = (weights: number[]) =>
+      solveLeastSquares(
+        A.map((row, i) => row.map(value => value * weights[i])),
+        points.map((p, i) => p.y * weights[i])
+      );
+    let scaledCoefficients = solveWeighted(residualSigmas(points).map(sigma => 1 / sigma));
+
+    // σx needs the slope of the fitted curve, so refit once with the effective variances
+    if (points.some(p => p.sigmaX)) {
+      const first = scaledCoefficients;
+      const predict = (x: number) =>
+        first.reduceRight((value, c) => value * ((x - xMean) / xScale) + c, 0);
+      scaledCoefficients = solveWeighted(residualSigmas(points, predict).map(sigma => 1 / sigma));
+    }
+
+    // Expand Σ cⱼ((x - xMean)/xScale)ʲ back into powers of x
+    const expanded = new Array(degree + 1).fill(0);
+    for (let j = 0; j <= degree; j++) {
+      const cj = scaledCoefficients[j] / xScale ** j;
+      for (let k = 0; k <= j; k++) {
+        expanded[k] += cj * binomial(j, k) * (-xMean) ** (j - k);
+      }
+    }
+
+    // The expansion leaves round-off in powers the fit does not use (e.g. -3e-18x²)
+    const extent = xExtent(points);
+    const ascending = snapRoundOff(
+      expanded,
+      expanded.map((_, k) => extent ** k)
+    );
+
+    const coefficients: Record<string, number> = {};
+    const highestFirst = ascending.slice().reverse();
+    highestFirst.forEach((coef, i) => {
+      coefficients[String.fromCharCode(97 + i)] = coef;
+    });
+
+    if (!validateCoefficients(coefficients)) {
+      throw new Error('invalid coefficients');
+    }
+
+    const rSquared = calculateRSquared(points, xi =>
+      ascending.reduceRight((value, c) => value * xi + c, 0)
+    );
+
+    // Adjusted R² is only defined when there are residual degrees of freedom left
+    const adjustedRSquared =
+      n > degree + 1 ? 1 - ((1 - rSquared) * (n - 1)) / (n - degree - 1) : undefined;
+
+    return {
+      coefficients,
+      ...renderModel(
+        polynomialModel(highestFirst.map(coef => coefficientNode(coef, useFractions)))
+      ),
+      rSquared,
+      adjustedRSquared,
+    };
+  } catch (e) {
+    return {
+      coefficients: {},
+      equation: '',
+      desmosEquation: '',
+      error: `Unable to fit degree ${degree} polynomial - points may be invalid`,
+    };
+  }
+}
+
+// Linear regression: y = ax + b by ordinary least squares, with inference statistics
+function solveLinearRegression(points: DataPoint[], useFractions: boolean = true): SolverResult {
+  if (points.length < 3) {
+    return {
+      coefficients: {},
+      equation: '',
+      desmosEquation: '',
+      error: 'Need at least 3 points for linear regression statistics',
+    };
+  }
+
+  const n = points.length;
+
+  // Weighted sums with w = 1/σ²; with no uncertainties every w is 1 and these are the usual
+  // ordinary least squares formulas. σx enters through a second pass at the fitted slope
+  const fitLine = (weights: number[]) => {
+    const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+    const xMean = points.reduce((sum, p, i) => sum + weights[i] * p.x, 0) / totalWeight;
+    const yMean = points.reduce((sum, p, i) => sum + weights[i] * p.y, 0) / totalWeight;
+    const sxx = points.reduce((sum, p, i) => sum + weights[i] * (p.x - xMean) ** 2, 0);
+    const syy = points.reduce((sum, p, i) => sum + weights[i] * (p.y - yMean) ** 2, 0);
+    const sxy = points.reduce((sum, p, i) => sum + weights[i] * (p.x - xMean) * (p.y - yMean), 0);
+    return {
+      weights,
+      totalWeight,
+      xMean,
+      sxx,
+      syy,
+      sxy,
+      a: sxy / sxx,
+      b: yMean - (sxy / sxx) * xMean,
+    };
+  };
+
+  let fit = fitLine(residualSigmas(points).map(sigma => 1 / sigma ** 2));
+  if (fit.sxx >= 1e-12 && points.some(p => p.sigmaX)) {
+    const { a: slope, b: intercept } = fit;
+    fit = fitLine(residualSigmas(points, x => slope * x + intercept).map(sigma => 1 / sigma ** 2));
+  }
+  const { weights, totalWeight, xMean, sxx, syy, sxy } = fit;
+  const [a, b] = snapRoundOff([fit.a, fit.b], [xExtent(points), 1]);
+
+  if (sxx < 1e-12) {
+    return {
+      coefficients: {},
+      equation: '',
+      desmosEquation: '',
+      error: 'Linear regression requires at least two distinct x values',
+    };
+  }
+
+  const degreesOfFreedom = n - 2;
+
+  const ssRes = points.reduce((sum, p, i) => sum + weights[i] * (p.y - (a * p.x + b)) ** 2, 0);
+  const residualStandardError = Math.sqrt(ssRes / degreesOfFreedom);
+  const pearsonR = syy > 0 ? sxy / Math.sqrt(sxx * syy) : 0;
+
+  const confidenceLevel = 0.95;
+  const tCritical = studentTQuantile(1 - (1 - confidenceLevel) / 2, degreesOfFreedom);
+
+  const slopeError = residualStandardError / Math.sqrt(sxx);
+  const interceptError = residualStandardError * Math.sqrt(1 / totalWeight + (xMean * xMean) / sxx);
+
+  const statistics: RegressionStatistics = {
+    slope: buildCoefficientStatistics(a, slopeError, tCritical, degreesOfFreedom),
+    intercept: buildCoefficientStatistics(b, interceptError, tCritical, degreesOfFreedom),
+    pearsonR,
+    residualStandardError,
+    degreesOfFreedom,
+    confidenceLevel,
+  };
+
+  return {
+    coefficients: { a, b },
+    ...renderModel(
+      polynomialModel([coefficientNode(a, useFractions), coefficientNode(b, useFractions)])
+    ),
+    rSquared: syy > 0 ? 1 - ssRes / syy : 1,
+    statistics,
+  };
+}
+
+function buildCoefficientStatistics(
+  estimate: number,
+  standardError: number,
+  tCritical: number,
+  degreesOfFreedom: number
+): CoefficientStatistics {
+  // A perfect fit has zero standard error, which makes every coefficient infinitely significant
+  const tStatistic =
+    standardError > 0 ? estimate / standardError : estimate === 0 ? 0 : Infinity * estimate;
+  const pValue = isFinite(tStatistic) ? studentTTwoSidedPValue(tStatistic, degreesOfFreedom) : 0;
+
+  return {
+    estimate,
+    standardError,
+    confidenceInterval: [
+      estimate - tCritical * standardError,
+      estimate + tCritical * standardError,
+    ],
+    tStatistic,
+    pValue,
+  };
+}
+
+// Two-sided p-value P(|T| > |t|) for Student's t distribution
+function studentTTwoSidedPValue(t: number, degreesOfFreedom: number): number {
+  const x = degreesOfFreedom / (degreesOfFreedom + t * t);
+  return regularizedIncompleteBeta(x, degreesOfFreedom / 2, 0.5);
+}
+
+// Quantile of Student's t distribution found by bisection on its CDF
+function studentTQuantile(probability: number, degreesOfFreedom: number): number {
+  const cdf = (t: number) => {
+    const tail = studentTTwoSidedPValue(t, degreesOfFreedom) / 2;
+    return t >= 0 ? 1 - tail : tail;
+  };
+
+  let low = -1e3;
+  let high = 1e3;
+  for (let iter = 0; iter < 200 && high - low > 1e-12; iter++) {
+    const mid = (low + high) / 2;
+    if (cdf(mid) < probability) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+  return (low + high) / 2;
+}
+
+// Regularized incomplete beta function Iₓ(a, b) using Lentz's continued fraction
+function regularizedIncompleteBeta(x: number, a: number, b: number): number {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+
+  // The continued fraction converges quickly only on this side of the mean
+  if (x > (a + 1) / (a + b + 2)) {
+    return 1 - regularizedIncompleteBeta(1 - x, b, a);
+  }
+
+  const logFront =
+    logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x);
+  const front = Math.exp(logFront) / a;
+
+  const tiny = 1e-300;
+  let c = 1;
+  let d = 1 - ((a + b) * x) / (a + 1);
+  if (Math.abs(d) < tiny) d = tiny;
+  d = 1 / d;
+  let result = d;
+
+  for (let m = 1; m <= 300; m++) {
+    const m2 = 2 * m;
+
+    // Even step
+    let numerator = (m * (b - m) * x) / ((a + m2 - 1) * (a + m2));
+    d = 1 + numerator * d;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = 1 + numerator / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    result *= d * c;
+
+    // Odd step
+    numerator = (-(a + m) * (a + b + m) * x) / ((a + m2) * (a + m2 + 1));
+    d = 1 + numerator * d;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = 1 + numerator / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    const delta = d * c;
+    result *= delta;
+
+    if (Math.abs(delta - 1) < 1e-15) break;
+  }
+
+  return front * result;
+}
+
+// Lanczos approximation of ln Γ(z)
+function logGamma(z: number): number {
+  const g = 7;
+  const coefficients = [
+    0.99999999999980993, 676.5203681218851, -1259.1392167224028, 771.32342877765313,
+    -176.61502916214059, 12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6,
+    1.5056327351493116e-7,
+  ];
+
+  if (z < 0.5) {
+    return Math.log(Math.PI / Math.sin(Math.PI * z)) - logGamma(1 - z);
+  }
+
+  z -= 1;
+  let sum = coefficients[0];
+  for (let i = 1; i < g + 2; i++) {
+    sum += coefficients[i] / (z + i);
+  }
+  const t = z + g + 0.5;
+  return 0.5 * Math.log(2 * Math.PI) + (z + 0.5) * Math.log(t) - t + Math.log(sum);
+}
+
+// Weighted by 1/σ² when the points carry uncertainties, which reduces to the usual R² otherwise
+function calculateRSquared(points: DataPoint[], predictFn: (x: number) => number): number {
+  const weights = hasUncertainties(points)
+    ? residualSigmas(points, predictFn).map(sigma => 1 / sigma ** 2)
+    : points.map(() => 1);
+  const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+  const yMean = points.reduce((sum, p, i) => sum + weights[i] * p.y, 0) / totalWeight;
+  const ssRes = points.reduce((sum, p, i) => {
+    const predicted = predictFn(p.x);
+    return sum + weights[i] * (p.y - predicted) ** 2;
+  }, 0);
+  const ssTot = points.reduce((sum, p, i) => sum + weights[i] * (p.y - yMean) ** 2, 0);
+  return 1 - ssRes / ssTot;
+}
+
+function hasUncertainties(points: DataPoint[]): boolean {
+  return points.some(p => p.sigmaY !== undefined || p.sigmaX !== undefined);
+}
+
+// Uncertainty of each residual y - f(x). σx is propagated through the local slope of the model,
+// σ² = σy² + (f'(x)·σx)² (effective variance); a point without σy takes the mean of the given ones
+function residualSigmas(points: DataPoint[], predict?: (x: number) => number): number[] {
+  const given = points.map(p => p.sigmaY).filter((sigma): sigma is number => sigma !== undefined);
+  const fallback =
+    given.length > 0 ? given.reduce((sum, sigma) => sum + sigma, 0) / given.length : 1;
+
+  return points.map(p => {
+    const sigmaY = p.sigmaY ?? fallback;
+    if (!p.sigmaX || !predict) return sigmaY;
+
+    const step = 1e-6 * Math.max(1, Math.abs(p.x));
+    const slope = (predict(p.x + step) - predict(p.x - step)) / (2 * step);
+    const sigma = Math.hypot(sigmaY, slope * p.sigmaX);
+    return isFinite(sigma) && sigma > 0 ? sigma : sigmaY;
+  });
+}
+
+// Weights 1/σ for distances to an implicit curve, where both coordinates contribute equally;
+// a missing σ on one axis is taken from the other
+function geometricWeights(points: DataPoint[]): number[] {
+  if (!hasUncertainties(points)) return points.map(() => 1);
+
+  const sigmas = points.map(p => {
+    const sigmaX = p.sigmaX ?? p.sigmaY;
+    const sigmaY = p.sigmaY ?? p.sigmaX;
+    return sigmaX === undefined || sigmaY === undefined
+      ? undefined
+      : Math.sqrt((sigmaX ** 2 + sigmaY ** 2) / 2);
+  });
+  const given = sigmas.filter((sigma): sigma is number => sigma !== undefined);
+  const fallback = given.reduce((sum, sigma) => sum + sigma, 0) / given.length;
+
+  return sigmas.map(sigma => 1 / (sigma ?? fallback));
+}
+
+let progressListener: ((progress: SolverProgress) => void) | null = null;
+const progressStages: Array<{ label: string; starts: number }> = [];
+let bestProgressRSquared: number | undefined;
+
+// Receives progress for the solves that follow, until replaced or cleared with null
+export function setProgressListener(listener: ((progress: SolverProgress) => void) | null): void {
+  progressListener = listener;
+  bestProgressRSquared = undefined;
+}
+
+function reportProgress(detail?: string): void {
+  if (!progressListener) return;
+  const labels = progressStages.map(stage => stage.label);
+  progressListener({
+    strategy: (detail ? [...labels, detail] : labels).join(' › '),
+    bestRSquared: bestProgressRSquared,
+  });
+}
+
+function recordProgressRSquared(rSquared: number | undefined): void {
+  if (rSquared === undefined || !isFinite(rSquared)) return;
+  if (bestProgressRSquared === undefined || rSquared > bestProgressRSquared) {
+    bestProgressRSquared = rSquared;
+  }
+}
+
+// Runs a step with its label on the progress stack
+function withProgressStage<T>(label: string, run: () => T): T {
+  progressStages.push({ label, starts: 0 });
+  reportProgress();
+  try {
+    return run();
+  } finally {
+    progressStages.pop();
+  }
+}
+
+type LevenbergMarquardtOptions = Parameters<typeof levenbergMarquardt>[2];
+
+// Levenberg-Marquardt fit of y = f(x) with each residual divided by its uncertainty. The weights
+// are folded into the model with the point index as the LM "x", rather than passed as the
+// library's weights option, because with σx they depend on the parameters through the slope
+function weightedLevenbergMarquardt(
+  points: DataPoint[],
+  model: (parameters: number[]) => (x: number) => number,
+  options: LevenbergMarquardtOptions
+): ReturnType<typeof levenbergMarquardt> {
+  const stage = progressStages[progressStages.length - 1];
+  if (stage) stage.starts++;
+
+  let fit: ReturnType<typeof levenbergMarquardt>;
+  if (!hasUncertainties(points)) {
+    const x = points.map(p => p.x);
+    const y = points.map(p => p.y);
+    fit = levenbergMarquardt({ x, y }, model, options);
+  } else {
+    const indices = points.map((_, i) => i);
+    const zeros = points.map(() => 0);
+    const weightedResidual = (parameters: number[]) => {
+      const predict = model(parameters);
+      const sigmas = residualSigmas(points, predict);
+      return (i: number) => (predict(points[i].x) - points[i].y) / sigmas[i];
+    };
+    fit = levenbergMarquardt({ x: indices, y: zeros }, weightedResidual, options);
+  }
+
+  if (progressListener) {
+    recordProgressRSquared(calculateRSquared(points, model(fit.parameterValues)));
+    reportProgress(stage ? `Levenberg-Marquardt start ${stage.starts}` : undefined);
+  }
+  return fit;
+}
+
+// Uncertainty of each point's residual from a fitted curve, matching scaledResiduals
+function curveSigmas(points: DataPoint[], curve: CurveFunction): number[] {
+  return curve.kind === 'explicit'
+    ? residualSigmas(points, curve.evaluate)
+    : geometricWeights(points).map(weight => 1 / weight);
+}
+
+// Σ(rᵢ/σᵢ)² / (N - p), undefined when no degrees of freedom are left
+function calculateReducedChiSquared(
+  points: DataPoint[],
+  curve: CurveFunction,
+  parameterCount: number
+): number | undefined {
+  const degreesOfFreedom = points.length - parameterCount;
+  if (degreesOfFreedom <= 0) return undefined;
+
+  const sigmas = curveSigmas(points, curve);
+  const chiSquared = scaledResiduals(points, curve, sigmas).reduce((sum, r) => sum + r * r, 0);
+
+  const reduced = chiSquared / degreesOfFreedom;
+  return isFinite(reduced) ? reduced : undefined;
+}
+
+// Coefficients an approximation fit estimates independently, or undefined for interpolants. The
+// redundant offsets of a·e^(bx + c) + d and a·ln(bx + c) + d (c and b) are left out, since the
+// other coefficients absorb them
+function fittedParameterNames(
+  equationType: ApproximationEquationType,
+  options: SolverOptions = {}
+): string[] | undefined {
+  switch (equationType) {
+    case ApproximationEquationType.SINE:
+      return ['a', 'b', 'c', 'd'];
+    case ApproximationEquationType.DAMPED_SINE:
+      return ['a', 'lambda', 'b', 'c', 'd'];
+    case ApproximationEquationType.LOG:
+      return ['a', 'c', 'd'];
+    case ApproximationEquationType.EXPONENTIAL:
+      return ['a', 'b', 'd'];
+    case ApproximationEquationType.POWER:
+      return options.includeOffset === false ? ['a', 'b'] : ['a', 'b', 'c'];
+    case ApproximationEquationType.LOGISTIC:
+      return options.growthModel === 'richards'
+        ? ['L', 'k', 'x0', 'd', 'nu']
+        : ['L', 'k', 'x0', 'd'];
+    case ApproximationEquationType.FOURIER: {
+      const names = ['a0', 'omega'];
+      for (let n = 1; n <= (options.harmonics ?? 3); n++) {
+        names.push(`A${n}`, `phi${n}`);
+      }
+      return names;
+    }
+    case ApproximationEquationType.POLYNOMIAL:
+      return Array.from({ length: (options.degree ?? 2) + 1 }, (_, i) =>
+        String.fromCharCode(97 + i)
+      );
+    case ApproximationEquationType.LINEAR_REGRESSION:
+      return ['a', 'b'];
+    case ApproximationEquationType.CUSTOM:
+      return parseCustomModel(options.customExpression ?? '').parameters;
+    case ApproximationEquationType.CIRCLE_FIT:
+      return ['h', 'k', 'r'];
+    case ApproximationEquationType.ELLIPSE:
+      return ['h', 'k', 'a', 'b'];
+    case ApproximationEquationType.ROTATED_ELLIPSE:
+      return ['h', 'k', 'a', 'b', 'theta'];
+    default:
+      return undefined;
+  }
+}
+
+// Number of free parameters an approximation fit estimates, or undefined for interpolants
+export function fittedParameterCount(
+  equationType: ApproximationEquationType,
+  options: SolverOptions = {}
+): number | undefined {
+  // Six conic coefficients, one of which only fixes the overall scale
+  if (equationType === ApproximationEquationType.CONIC_FIT) return 5;
+  return fittedParameterNames(equationType, options)?.length;
+}
+
+// Residuals of a fitted curve scaled by 1/σ: vertical offsets for explicit curves and the
+// first-order (Sampson) distance F/|∇F| for implicit ones
+function scaledResiduals(points: DataPoint[], curve: CurveFunction, sigmas: number[]): number[] {
+  if (curve.kind === 'explicit') {
+    return points.map((p, i) => (p.y - curve.evaluate(p.x)) / sigmas[i]);
+  }
+
+  return points.map((p, i) => {
+    const step = 1e-6 * Math.max(1, Math.abs(p.x), Math.abs(p.y));
+    const gradX = (curve.evaluate(p.x + step, p.y) - curve.evaluate(p.x - step, p.y)) / (2 * step);
+    const gradY = (curve.evaluate(p.x, p.y + step) - curve.evaluate(p.x, p.y - step)) / (2 * step);
+    return curve.evaluate(p.x, p.y) / (Math.hypot(gradX, gradY) || 1) / sigmas[i];
+  });
+}
+
+// Covariance C = s²(JᵀJ)⁻¹ from a central-difference Jacobian J of the scaled residuals with
+// respect to the fitted coefficients, scaled by the residual variance s² as in ordinary
+// regression output
+function estimateFitUncertainty(
+  equationType: ApproximationEquationType,
+  points: DataPoint[],
+  result: SolverResult,
+  options: SolverOptions
+): FitUncertainty | undefined {
+  const names = fittedParameterNames(equationType, options);
+  const curve = getCurveFunction(equationType, result);
+  if (!names || !curve || names.some(name => !isFinite(result.coefficients[name]))) {
+    return undefined;
+  }
+
+  const degreesOfFreedom = points.length - names.length;
+  if (degreesOfFreedom <= 0) return undefined;
+
+  const sigmas = curveSigmas(points, curve);
+  const residuals = scaledResiduals(points, curve, sigmas);
+
+  const jacobianColumns = names.map(name => {
+    const value = result.coefficients[name];
+    const step = 1e-6 * Math.max(1, Math.abs(value));
+    const shifted = (delta: number) => {
+      const shiftedCurve = getCurveFunction(equationType, {
+        ...result,
+        coefficients: { ...result.coefficients, [name]: value + delta },
+      });
+      return shiftedCurve ? scaledResiduals(points, shiftedCurve, sigmas) : [];
+    };
+    const plus = shifted(step);
+    const minus = shifted(-step);
+    return residuals.map((_, i) => (plus[i] - minus[i]) / (2 * step));
+  });
+
+  const normalMatrix = names.map((_, j) =>
+    names.map((_, k) =>
+      jacobianColumns[j].reduce((sum, value, i) => sum + value * jacobianColumns[k][i], 0)
+    )
+  );
+  if (!normalMatrix.flat().every(isFinite)) return undefined;
+
+  let inverse: number[][];
+  try {
+    inverse = math.inv(normalMatrix);
+  } catch (e) {
+    // Parameters the data cannot tell apart make JᵀJ singular
+    return undefined;
+  }
+
+  const residualVariance = residuals.reduce((sum, r) => sum + r * r, 0) / degreesOfFreedom;
+  const covariance = inverse.map(row => row.map(value => value * residualVariance));
+  if (!covariance.every((row, j) => row.every(isFinite) && row[j] >= 0)) return undefined;
+
+  const confidenceLevel = 0.95;
+  const tCritical = studentTQuantile(1 - (1 - confidenceLevel) / 2, degreesOfFreedom);
+  const parameters: Record<string, CoefficientStatistics> = {};
+  names.forEach((name, j) => {
+    parameters[name] = buildCoefficientStatistics(
+      result.coefficients[name],
+      Math.sqrt(covariance[j][j]),
+      tCritical,
+      degreesOfFreedom
+    );
+  });
+
+  return {
+    parameterNames: names,
+    parameters,
+    covariance,
+    residualVariance,
+    observationVariance: sigmas.reduce((sum, sigma) => sum + sigma * sigma, 0) / sigmas.length,
+    degreesOfFreedom,
+    confidenceLevel,
+  };
+}
+
+// Standardized residuals beyond this many standard deviations are pointed out
+const LARGE_RESIDUAL_CUTOFF = 2.5;
+
+// Residual diagnostics of a fit to all the points. The residual standard deviation is estimated
+// from the points a robust fit kept, so rejected outliers do not hide their own size. Functions
+// are tested for autocorrelation in order of x, implicit curves in the order the points were given
+function analyzeResiduals(
+  equationType: ApproximationEquationType,
+  points: DataPoint[],
+  result: SolverResult,
+  options: SolverOptions
+): ResidualAnalysis | undefined {
+  const curve = getCurveFunction(equationType, result);
+  const parameterCount = fittedParameterCount(equationType, options);
+  if (!curve || parameterCount === undefined) return undefined;
+
+  const outliers = result.outliers ?? [];
+  const keptCount = points.length - outliers.length;
+  if (keptCount <= parameterCount) return undefined;
+
+  const residuals = scaledResiduals(
+    points,
+    curve,
+    points.map(() => 1)
+  );
+  const scaled = scaledResiduals(points, curve, curveSigmas(points, curve));
+  const keptSquares = scaled.reduce((sum, r, i) => (outliers.includes(i) ? sum : sum + r * r), 0);
+  const standardDeviation = Math.sqrt(keptSquares / (keptCount - parameterCount));
+  if (!residuals.every(isFinite) || !(standardDeviation > 0)) return undefined;
+
+  const standardized = scaled.map(r => r / standardDeviation);
+  const n = points.length;
+
+  const order = points.map((_, i) => i);
+  if (curve.kind === 'explicit') order.sort((i, j) => points[i].x - points[j].x);
+  let successiveSquares = 0;
+  for (let k = 1; k < n; k++) {
+    successiveSquares += (residuals[order[k]] - residuals[order[k - 1]]) ** 2;
+  }
+  const sumOfSquares = residuals.reduce((sum, r) => sum + r * r, 0);
+
+  // Blom's plotting positions (i - 3/8) / (n + 1/4) for the expected normal order statistics
+  const quantiles = order
+    .slice()
+    .sort((i, j) => standardized[i] - standardized[j])
+    .map((index, rank) => ({
+      index,
+      theoretical: normalQuantile((rank + 1 - 0.375) / (n + 0.25)),
+      sample: standardized[index],
+    }));
+
+  // Sturges' rule for the number of bins
+  const binCount = Math.ceil(Math.log2(n)) + 1;
+  const low = Math.min(...residuals);
+  const high = Math.max(...residuals);
+  const binWidth = high > low ? (high - low) / binCount : 1;
+  const histogramCounts = new Array(binCount).fill(0);
+  residuals.forEach(r => {
+    histogramCounts[Math.min(binCount - 1, Math.floor((r - low) / binWidth))]++;
+  });
+
+  return {
+    residuals,
+    standardized,
+    rmse: Math.sqrt(sumOfSquares / n),
+    mae: residuals.reduce((sum, r) => sum + Math.abs(r), 0) / n,
+    maxError: Math.max(...residuals.map(Math.abs)),
+    durbinWatson: successiveSquares / sumOfSquares,
+    quantiles,
+    histogramStart: high > low ? low : low - binWidth / 2,
+    histogramBinWidth: binWidth,
+    histogramCounts,
+    largeResiduals: standardized.flatMap((z, i) =>
+      Math.abs(z) > LARGE_RESIDUAL_CUTOFF ? [i] : []
+    ),
+  };
+}
+
+// Inverse of the standard normal distribution function, by bisection on erf
+function normalQuantile(probability: number): number {
+  let low = -40;
+  let high = 40;
+  for (let iter = 0; iter < 200 && high - low > 1e-12; iter++) {
+    const mid = (low + high) / 2;
+    if (0.5 * (1 + math.erf(mid / Math.SQRT2)) < probability) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+  return (low + high) / 2;
+}
+
+// Confidence and prediction bands of an explicit fit: the variance of the fitted value is gᵀCg
+// with g the gradient of f(x) in the fitted coefficients, and a new observation adds s²·σ²
+export function buildConfidenceBands(
+  equationType: EquationType,
+  result: SolverResult
+): ((x: number) => ConfidenceBand) | null {
+  const uncertainty = result.uncertainty;
+  const curve = getCurveFunction(equationType, result);
+  if (!uncertainty || !curve || curve.kind !== 'explicit') return null;
+
+  const { parameterNames, covariance, residualVariance, observationVariance } = uncertainty;
+  const steps = parameterNames.map(name => 1e-6 * Math.max(1, Math.abs(result.coefficients[name])));
+  const shiftedCurves = parameterNames.map((name, j) =>
+    [steps[j], -steps[j]].map(delta => {
+      const shifted = getCurveFunction(equationType, {
+        ...result,
+        coefficients: { ...result.coefficients, [name]: result.coefficients[name] + delta },
+      });
+      return shifted?.kind === 'explicit' ? shifted.evaluate : () => NaN;
+    })
+  );
+  const tCritical = studentTQuantile(
+    1 - (1 - uncertainty.confidenceLevel) / 2,
+    uncertainty.degreesOfFreedom
+  );
+
+  return x => {
+    const fit = curve.evaluate(x);
+    const gradient = shiftedCurves.map(([plus, minus], j) => (plus(x) - minus(x)) / (2 * steps[j]));
+    const fitVariance = gradient.reduce(
+      (sum, gj, j) =>
+        sum + gradient.reduce((inner, gk, k) => inner + gj * covariance[j][k] * gk, 0),
+      0
+    );
+    const confidence = tCritical * Math.sqrt(Math.max(fitVariance, 0));
+    const prediction =
+      tCritical * Math.sqrt(Math.max(fitVariance, 0) + residualVariance * observationVariance);
+
+    return {
+      fit,
+      confidence: [fit - confidence, fit + confidence],
+      prediction: [fit - prediction, fit + prediction],
+    };
+  };
+}
+
+function solveApproximationEquation(
+  equationType: ApproximationEquationType,
+  points: DataPoint[],
+  useFractions: boolean = true,
+  options: SolverOptions = {}
+): SolverResult {
+  const method = options.robustMethod ?? 'none';
+  // An interpolant has no residuals to reweight
+  const robust = method !== 'none' && equationType !== ApproximationEquationType.SPLINE;
+
+  let result: SolverResult;
+  let outliers: number[] = [];
+  if (!robust) {
+    result = fitApproximation(equationType, points, useFractions, options);
+  } else if (method === 'ransac') {
+    ({ result, outliers } = fitRansac(equationType, points, useFractions, options));
+  } else {
+    ({ result, outliers } = fitIterativelyReweighted(
+      equationType,
+      points,
+      useFractions,
+      options,
+      method
+    ));
+  }
+  if (result.error) {
+    return result;
+  }
+
+  // Error estimates describe the points the robust fit kept
+  const inliers = points.filter((_, i) => !outliers.includes(i));
+  if (robust) {
+    result.outliers = outliers;
+  }
+
+  result.uncertainty = estimateFitUncertainty(equationType, inliers, result, options);
+  result.residualAnalysis = analyzeResiduals(equationType, points, result, options);
+
+  const curve = getCurveFunction(equationType, result);
+  const parameterCount = fittedParameterCount(equationType, options);
+  if (hasUncertainties(inliers) && curve && parameterCount !== undefined) {
+    result.reducedChiSquared = calculateReducedChiSquared(inliers, curve, parameterCount);
+  }
+  return result;
+}
+
+function fitApproximation(
+  equationType: ApproximationEquationType,
+  points: DataPoint[],
+  useFractions: boolean,
+  options: SolverOptions
+): SolverResult {
+  return withProgressStage(`${MODEL_LABELS[equationType]} fit`, () => {
+    const result = fitModel(equationType, points, useFractions, options);
+    recordProgressRSquared(result.rSquared);
+    return result;
+  });
+}
+
+function fitModel(
+  equationType: ApproximationEquationType,
+  points: DataPoint[],
+  useFractions: boolean,
+  options: SolverOptions
+): SolverResult {
+  switch (equationType) {
+    case ApproximationEquationType.SINE:
+      return solveSine(points, useFractions);
+    case ApproximationEquationType.LOG:
+      return solveLog(points, useFractions);
+    case ApproximationEquationType.EXPONENTIAL:
+      return solveExponential(points, useFractions);
+    case ApproximationEquationType.ELLIPSE:
+      return solveEllipseApproximation(points, useFractions);
+    case ApproximationEquationType.POLYNOMIAL:
+      return solvePolynomialRegression(points, options.degree ?? 2, useFractions);
+    case ApproximationEquationType.LINEAR_REGRESSION:
+      return solveLinearRegression(points, useFractions);
+    case ApproximationEquationType.CONIC_FIT:
+      return solveConicApproximation(points, useFractions);
+    case ApproximationEquationType.ROTATED_ELLIPSE:
+      return solveRotatedEllipse(points, useFractions);
+    case ApproximationEquationType.CIRCLE_FIT:
+      return solveCircleApproximation(points, useFractions);
+    case ApproximationEquationType.POWER:
+      return solvePower(points, options.includeOffset ?? true, useFractions);
+    case ApproximationEquationType.LOGISTIC:
+      return solveLogistic(points, options.growthModel ?? 'logistic', useFractions);
+    case ApproximationEquationType.FOURIER:
+      return solveFourier(points, options.harmonics ?? 3, useFractions);
+    case ApproximationEquationType.DAMPED_SINE:
+      return solveDampedSine(points, useFractions);
+    case ApproximationEquationType.SPLINE:
+      return solveSpline(
+        points,
+        options.splineType ?? 'natural',
+        [options.startSlope ?? 0, options.endSlope ?? 0],
+        useFractions
+      );
+    case ApproximationEquationType.CUSTOM:
+      return solveCustomModel(
+        points,
+        options.customExpression ?? '',
+        options.customParameters,
+        useFractions
+      );
+    default:
+      return { coefficients: {}, equation: '', desmosEquation: '', error: 'Unknown equation type' };
+  }
+}
+
+interface RobustFit {
+  result: SolverResult;
+  outliers: number[];
+}
+
+// Tuning constants giving 95% efficiency on normally distributed residuals
+const ROBUST_TUNING = { huber: 1.345, tukey: 4.685 };
+
+// Huber never rejects a point outright, so those beyond this many robust standard deviations
+// are reported as outliers
+const HUBER_OUTLIER_CUTOFF = 3;
+
+// Residuals in units of their uncertainty, divided by the robust scale 1.4826·median|r| (the
+// standard deviation for normal residuals). The scale has a small floor so that when most points
+// lie exactly on the curve the rest still stand out
+function standardizedResiduals(points: DataPoint[], curve: CurveFunction): number[] {
+  const residuals = scaledResiduals(points, curve, curveSigmas(points, curve));
+  const magnitudes = residuals.map(Math.abs).sort((a, b) => a - b);
+  const median = magnitudes[Math.floor(magnitudes.length / 2)];
+  const scale = Math.max(1.4826 * median, 1e-9 * (1 + magnitudes[magnitudes.length - 1]));
+  return residuals.map(r => r / scale);
+}
+
+function robustWeight(standardized: number, method: 'huber' | 'tukey'): number {
+  const u = Math.abs(standardized) / ROBUST_TUNING[method];
+  if (method === 'huber') return u <= 1 ? 1 : 1 / u;
+  return u < 1 ? (1 - u * u) ** 2 : 0;
+}
+
+// Iteratively reweighted least squares from a starting fit: each pass refits with the
+// uncertainty of every point divided by √w, w being its Huber or Tukey weight under the previous
+// fit. Every approximation solver weights its residuals (or, for the conic, its design rows) by
+// 1/σ, so this works the same for explicit and implicit curves
+function reweightIteratively(
+  equationType: ApproximationEquationType,
+  points: DataPoint[],
+  start: SolverResult,
+  loss: 'huber' | 'tukey',
+  useFractions: boolean,
+  options: SolverOptions
+): SolverResult {
+  const baseSigmas = residualSigmas(points);
+  let result = start;
+  let weights = points.map(() => 1);
+
+  for (let iteration = 0; iteration < 10 && !result.error; iteration++) {
+    const curve = getCurveFunction(equationType, result);
+    if (!curve) break;
+
+    const next = standardizedResiduals(points, curve).map(u => robustWeight(u, loss));
+    const change = Math.max(...next.map((w, i) => Math.abs(w - weights[i])));
+    weights = next;
+    if (change < 1e-2) break;
+
+    const reweighted = points.flatMap((p, i) => {
+      if (weights[i] === 0) return [];
+      const scale = 1 / Math.sqrt(weights[i]);
+      return [
+        {
+          ...p,
+          sigmaY: baseSigmas[i] * scale,
+          sigmaX: p.sigmaX === undefined ? undefined : p.sigmaX * scale,
+        },
+      ];
+    });
+    const refit = withProgressStage(
+      `${loss === 'huber' ? 'Huber' : 'Tukey'} reweighting pass ${iteration + 1}`,
+      () => fitApproximation(equationType, reweighted, useFractions, options)
+    );
+    if (refit.error) break;
+    result = refit;
+  }
+  return result;
+}
+
+// Points more than the cutoff in robust standard deviations away from a fitted curve
+function robustOutliers(
+  equationType: ApproximationEquationType,
+  points: DataPoint[],
+  result: SolverResult,
+  cutoff: number
+): number[] {
+  const curve = getCurveFunction(equationType, result);
+  if (!curve) return [];
+  return standardizedResiduals(points, curve).flatMap((u, i) => (Math.abs(u) > cutoff ? [i] : []));
+}
+
+function fitIterativelyReweighted(
+  equationType: ApproximationEquationType,
+  points: DataPoint[],
+  useFractions: boolean,
+  options: SolverOptions,
+  method: 'huber' | 'tukey'
+): RobustFit {
+  // A single far-off point can drag a least-squares circle or conic anywhere, and IRLS cannot
+  // recover from a start where the genuine points look like the outliers. Implicit curves
+  // therefore start from the least median of squares fit; functions from least squares
+  const lmeds = IMPLICIT_FIT_TYPES.includes(equationType)
+    ? fitLeastMedianOfSquares(equationType, points, useFractions, options)
+    : null;
+  const start =
+    lmeds && !lmeds.error ? lmeds : fitApproximation(equationType, points, useFractions, options);
+
+  // Tukey's loss is not convex, so it starts from the Huber solution rather than least squares
+  let result = reweightIteratively(equationType, points, start, 'huber', useFractions, options);
+  if (method === 'tukey') {
+    result = reweightIteratively(equationType, points, result, 'tukey', useFractions, options);
+  }
+
+  const cutoff = method === 'huber' ? HUBER_OUTLIER_CUTOFF : ROBUST_TUNING.tukey;
+  return { result, outliers: robustOutliers(equationType, points, result, cutoff) };
+}
+
+// Minimal sample size and the curve it determines exactly, for the types RANSAC supports
+function ransacModel(
+  equationType: ApproximationEquationType,
+  options: SolverOptions
+): { sampleSize: number; fit: (sample: DataPoint[]) => CurveFunction | null } | null {
+  const line = {
+    sampleSize: 2,
+    fit: ([p, q]: DataPoint[]): CurveFunction | null => {
+      if (p.x === q.x) return null;
+      const slope = (q.y - p.y) / (q.x - p.x);
+      return { kind: 'explicit', evaluate: x => p.y + slope * (x - p.x) };
+    },
+  };
+
+  switch (equationType) {
+    case ApproximationEquationType.LINEAR_REGRESSION:
+      return line;
+    case ApproximationEquationType.POLYNOMIAL:
+      return (options.degree ?? 2) === 1 ? line : null;
+    case ApproximationEquationType.CIRCLE_FIT:
+      return {
+        sampleSize: 3,
+        fit: sample => {
+          const circle = fitCircleAlgebraic(sample);
+          if (!circle) return null;
+          const [h, k, r] = circle;
+          return getCurveFunction(equationType, { coefficients: { h, k, r }, equation: '' });
+        },
+      };
+    case ApproximationEquationType.ELLIPSE:
+    case ApproximationEquationType.ROTATED_ELLIPSE:
+      return {
+        sampleSize: 5,
+        fit: sample => {
+          const ellipse = fitEllipseDirect(sample);
+          if (!ellipse) return null;
+          return getCurveFunction(ApproximationEquationType.ROTATED_ELLIPSE, {
+            coefficients: { ...ellipse },
+            equation: '',
+          });
+        },
+      };
+    case ApproximationEquationType.CONIC_FIT:
+      return {
+        sampleSize: 5,
+        fit: sample => {
+          const { vector, isUnique } = fitConicNullSpace(sample);
+          if (!isUnique) return null;
+          return getCurveFunction(equationType, {
+            coefficients: normalizeConicCoefficients(vector),
+            equation: '',
+          });
+        },
+      };
+    default:
+      return null;
+  }
+}
+
+export function supportsRansac(
+  equationType: ApproximationEquationType,
+  options: SolverOptions = {}
+): boolean {
+  return ransacModel(equationType, options) !== null;
+}
+
+const RANSAC_SAMPLES = 500;
+
+// 32-bit mulberry32 generator; a fixed seed makes solving the same points twice give the same
+// result
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = Math.imul(state ^ (state >>> 15), state | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Least median of squares: curves through random minimal samples are scored by their median
+// squared residual, so no inlier threshold has to be chosen up front. The points within 2.5
+// robust standard deviations of the best one are then fitted by least squares
+function fitLeastMedianOfSquares(
+  equationType: ApproximationEquationType,
+  points: DataPoint[],
+  useFractions: boolean,
+  options: SolverOptions
+): SolverResult {
+  const model = ransacModel(equationType, options);
+  if (!model) {
+    return {
+      coefficients: {},
+      equation: '',
+      desmosEquation: '',
+      error: 'RANSAC is only available for lines, circles, ellipses and conics',
+    };
+  }
+
+  const { sampleSize } = model;
+  if (points.length <= sampleSize) {
+    return {
+      coefficients: {},
+      equation: '',
+      desmosEquation: '',
+      error: `RANSAC needs more than ${sampleSize} points`,
+    };
+  }
+
+  const random = seededRandom(12345);
+  let bestResiduals: number[] | null = null;
+  let bestMedian = Infinity;
+  const indices = points.map((_, i) => i);
+  for (let sample = 0; sample < RANSAC_SAMPLES; sample++) {
+    if (sample % 50 === 0) {
+      reportProgress(`RANSAC sample ${sample + 1} of ${RANSAC_SAMPLES}`);
+    }
+    // Partial Fisher-Yates shuffle for a sample of distinct points
+    for (let i = 0; i < sampleSize; i++) {
+      const j = i + Math.floor(random() * (indices.length - i));
+      [indices[i], indices[j]] = [indices[j], indices[i]];
+    }
+    const curve = model.fit(indices.slice(0, sampleSize).map(i => points[i]));
+    if (!curve) continue;
+
+    const residuals = scaledResiduals(points, curve, curveSigmas(points, curve)).map(Math.abs);
+    const squares = residuals.map(r => r * r).sort((a, b) => a - b);
+    const median = squares[Math.floor(squares.length / 2)];
+    if (median < bestMedian) {
+      bestMedian = median;
+      bestResiduals = residuals;
+    }
+  }
+
+  if (!bestResiduals) {
+    return {
+      coefficients: {},
+      equation: '',
+      desmosEquation: '',
+      error: 'No sample of points determines a valid curve',
+    };
+  }
+
+  // Rousseeuw's small-sample correction of the least median of squares scale
+  const scale = 1.4826 * (1 + 5 / (points.length - sampleSize)) * Math.sqrt(bestMedian);
+  const threshold = Math.max(2.5 * scale, 1e-9 * (1 + Math.max(...bestResiduals)));
+  return fitApproximation(
+    equationType,
+    points.filter((_, i) => bestResiduals[i] <= threshold),
+    useFractions,
+    options
+  );
+}
+
+// RANSAC: the least median of squares consensus fit, refined over all points
+function fitRansac(
+  equationType: ApproximationEquationType,
+  points: DataPoint[],
+  useFractions: boolean,
+  options: SolverOptions
+): RobustFit {
+  const consensus = fitLeastMedianOfSquares(equationType, points, useFractions, options);
+  if (consensus.error) {
+    return { result: consensus, outliers: [] };
+  }
+
+  // Minimal samples follow the noise and understate the scale, so the consensus fit only serves
+  // as the start of a Tukey refinement over all points (an MM-estimate)
+  const result = reweightIteratively(
+    equationType,
+    points,
+    consensus,
+    'tukey',
+    useFractions,
+    options
+  );
+  return {
+    result,
+    outliers: robustOutliers(equationType, points, result, ROBUST_TUNING.tukey),
+  };
+}
+
+const MODEL_LABELS: Record<ApproximationEquationType, string> = {
+  [ApproximationEquationType.SINE]: 'Sine',
+  [ApproximationEquationType.LOG]: 'Logarithmic',
+  [ApproximationEquationType.EXPONENTIAL]: 'Exponential',
+  [ApproximationEquationType.ELLIPSE]: 'Ellipse (axis-aligned)',
+  [ApproximationEquationType.POLYNOMIAL]: 'Polynomial',
+  [ApproximationEquationType.LINEAR_REGRESSION]: 'Linear',
+  [ApproximationEquationType.CONIC_FIT]: 'Conic',
+  [ApproximationEquationType.ROTATED_ELLIPSE]: 'Ellipse (rotated)',
+  [ApproximationEquationType.CIRCLE_FIT]: 'Circle',
+  [ApproximationEquationType.POWER]: 'Power law',
+  [ApproximationEquationType.LOGISTIC]: 'Logistic',
+  [ApproximationEquationType.FOURIER]: 'Fourier',
+  [ApproximationEquationType.DAMPED_SINE]: 'Damped sine',
+  [ApproximationEquationType.CUSTOM]: 'Custom',
+  [ApproximationEquationType.SPLINE]: 'Spline',
+};
+
+const IMPLICIT_FIT_TYPES: ApproximationEquationType[] = [
+  ApproximationEquationType.ELLIPSE,
+  ApproximationEquationType.ROTATED_ELLIPSE,
+  ApproximationEquationType.CIRCLE_FIT,
+  ApproximationEquationType.CONIC_FIT,
+];
+
+// Highest polynomial degree and Fourier harmonic count tried by the automatic comparison
+const MAX_COMPARED_DEGREE = 6;
+const MAX_COMPARED_HARMONICS = 3;
+
+const CROSS_VALIDATION_FOLDS = 5;
+
+interface ModelVariant {
+  equationType: ApproximationEquationType;
+  options: SolverOptions;
+  label: string;
+}
+
+// Every approximation model and its variants worth comparing on the given points. The spline is
+// left out because it interpolates, and the custom model only takes part once it has an expression
+function modelVariants(points: DataPoint[], options: SolverOptions): ModelVariant[] {
+  const T = ApproximationEquationType;
+  const variants: ModelVariant[] = [
+    { equationType: T.LINEAR_REGRESSION, options: {}, label: MODEL_LABELS[T.LINEAR_REGRESSION] },
+  ];
+
+  for (let degree = 2; degree <= MAX_COMPARED_DEGREE; degree++) {
+    variants.push({
+      equationType: T.POLYNOMIAL,
+      options: { degree },
+      label: `Polynomial, degree ${degree}`,
+    });
+  }
+  for (const type of [T.EXPONENTIAL, T.LOG, T.SINE, T.DAMPED_SINE]) {
+    variants.push({ equationType: type, options: {}, label: MODEL_LABELS[type] });
+  }
+  variants.push(
+    { equationType: T.POWER, options: { includeOffset: false }, label: 'Power law' },
+    { equationType: T.POWER, options: { includeOffset: true }, label: 'Power law + offset' }
+  );
+  for (const growthModel of ['logistic', 'gompertz', 'richards'] as const) {
+    const label = growthModel.charAt(0).toUpperCase() + growthModel.slice(1);
+    variants.push({ equationType: T.LOGISTIC, options: { growthModel }, label });
+  }
+  for (let harmonics = 1; harmonics <= MAX_COMPARED_HARMONICS; harmonics++) {
+    const label = `Fourier, ${harmonics} harmonic${harmonics > 1 ? 's' : ''}`;
+    variants.push({ equationType: T.FOURIER, options: { harmonics }, label });
+  }
+
+  const customModel = parseCustomModel(options.customExpression ?? '');
+  if (options.customExpression && !customModel.error) {
+    variants.push({
+      equationType: T.CUSTOM,
+      options: {
+        customExpression: options.customExpression,
+        customParameters: options.customParameters,
+      },
+      label: `y = ${options.customExpression}`,
+    });
+  }
+
+  for (const type of IMPLICIT_FIT_TYPES) {
+    variants.push({ equationType: type, options: {}, label: MODEL_LABELS[type] });
+  }
+
+  // Models with fewer points than parameters have nothing left to judge them by
+  return variants.filter(variant => {
+    const count = fittedParameterCount(variant.equationType, variant.options);
+    return count !== undefined && points.length > count;
+  });
+}
+
+// RMS of the scaled residuals of each fold's points under a fit to the other folds. Points are
+// dealt into folds by index, which interleaves them along x for data entered in order
+function crossValidationError(
+  equationType: ApproximationEquationType,
+  points: DataPoint[],
+  options: SolverOptions
+): number | undefined {
+  const folds = Math.min(CROSS_VALIDATION_FOLDS, points.length);
+  let sumOfSquares = 0;
+
+  for (let fold = 0; fold < folds; fold++) {
+    const training = points.filter((_, i) => i % folds !== fold);
+    const heldOut = points.filter((_, i) => i % folds === fold);
+    let curve: CurveFunction | null;
+    try {
+      const result = withProgressStage(`cross-validation fold ${fold + 1} of ${folds}`, () =>
+        fitApproximation(equationType, training, false, options)
+      );
+      curve = result.error ? null : getCurveFunction(equationType, result);
+    } catch (e) {
+      curve = null;
+    }
+    if (!curve) return undefined;
+
+    for (const r of scaledResiduals(heldOut, curve, curveSigmas(heldOut, curve))) {
+      sumOfSquares += r * r;
+    }
+  }
+
+  const error = Math.sqrt(sumOfSquares / points.length);
+  return isFinite(error) ? error : undefined;
+}
+
+// Fits every model variant to the points and scores it with AIC = n·ln(RSS/n) + 2k and
+// BIC = n·ln(RSS/n) + k·ln(n), where RSS sums the residuals scaled by their uncertainties, and
+// with the cross-validated error. Robust reweighting is not applied, since the criteria assume
+// least squares fits
+export function compareModels(
+  points: DataPoint[],
+  useFractions: boolean = true,
+  options: SolverOptions = {}
+): ModelCandidate[] {
+  const variants = modelVariants(points, options);
+  return variants.map((variant, index) =>
+    withProgressStage(`Model ${index + 1} of ${variants.length}: ${variant.label}`, () =>
+      scoreModelVariant(variant, points, useFractions)
+    )
+  );
+}
+
+function scoreModelVariant(
+  variant: ModelVariant,
+  points: DataPoint[],
+  useFractions: boolean
+): ModelCandidate {
+  const { equationType } = variant;
+  const variantOptions = { ...variant.options, robustMethod: 'none' as const };
+  const result = solveEquation(equationType, points, useFractions, variantOptions);
+  const parameterCount = fittedParameterCount(equationType, variantOptions)!;
+  const candidate: ModelCandidate = {
+    equationType,
+    options: variant.options,
+    label: variant.label,
+    kind: IMPLICIT_FIT_TYPES.includes(equationType) ? 'implicit' : 'explicit',
+    result,
+    parameterCount,
+  };
+
+  const curve = getCurveFunction(equationType, result);
+  if (!curve) return candidate;
+
+  const n = points.length;
+  const residualSum = scaledResiduals(points, curve, curveSigmas(points, curve)).reduce(
+    (sum, r) => sum + r * r,
+    0
+  );
+  // A perfect fit would make the logarithm -∞
+  const logLikelihoodTerm = n * Math.log(Math.max(residualSum / n, Number.MIN_VALUE));
+  if (isFinite(logLikelihoodTerm)) {
+    candidate.aic = logLikelihoodTerm + 2 * parameterCount;
+    candidate.bic = logLikelihoodTerm + parameterCount * Math.log(n);
+  }
+  candidate.cvError = crossValidationError(equationType, points, variant.options);
+  return candidate;
+}
+
+// Candidates ordered best first by the criterion, lowest value winning; models that failed or
+// could not be scored go last
+export function rankModels(
+  candidates: ModelCandidate[],
+  criterion: SelectionCriterion
+): ModelCandidate[] {
+  const score = (candidate: ModelCandidate) => {
+    const value =
+      criterion === 'aic' ? candidate.aic : criterion === 'bic' ? candidate.bic : candidate.cvError;
+    return value === undefined || candidate.result.error ? Infinity : value;
+  };
+  return [...candidates].sort((a, b) => {
+    const [scoreA, scoreB] = [score(a), score(b)];
+    return scoreA === scoreB ? 0 : scoreA < scoreB ? -1 : 1;
+  });
+}
+
+// Curve representation used for plotting: explicit curves are y = f(x), implicit curves are
+// the zero set of f(x, y)
+export type CurveFunction =
+  | { kind: 'explicit'; evaluate: (x: number) => number }
+  | { kind: 'implicit'; evaluate: (x: number, y: number) => number };
+
+export function getCurveFunction(
+  equationType: EquationType,
+  result: SolverResult
+): CurveFunction | null {
+  if (result.error || Object.keys(result.coefficients).length === 0) {
+    return null;
+  }
+
+  const coef = result.coefficients;
+
+  switch (equationType) {
+    case ExactEquationType.LINEAR:
+    case ApproximationEquationType.LINEAR_REGRESSION:
+      return { kind: 'explicit', evaluate: x => coef.a * x + coef.b };
+    case ExactEquationType.QUADRATIC:
+      return { kind: 'explicit', evaluate: x => coef.a * x ** 2 + coef.b * x + coef.c };
+    case ExactEquationType.CUBIC:
+      return {
+        kind: 'explicit',
+        evaluate: x => coef.a * x ** 3 + coef.b * x ** 2 + coef.c * x + coef.d,
+      };
+    case ExactEquationType.CIRCLE:
+    case ApproximationEquationType.CIRCLE_FIT:
+      return {
+        kind: 'implicit',
+        evaluate: (x, y) => (x - coef.h) ** 2 + (y - coef.k) ** 2 - coef.r ** 2,
+      };
+    case ExactEquationType.CONIC:
+    case ApproximationEquationType.CONIC_FIT:
+      return {
+        kind: 'implicit',
+        evaluate: (x, y) =>
+          coef.A * x * x + coef.B * x * y + coef.C * y * y + coef.D * x + coef.E * y + coef.F,
+      };
+    case ApproximationEquationType.SINE:
+      return { kind: 'explicit', evaluate: x => coef.a * Math.sin(coef.b * x + coef.c) + coef.d };
+    case ApproximationEquationType.DAMPED_SINE:
+      return {
+        kind: 'explicit',
+        evaluate: x => coef.a * Math.exp(-coef.lambda * x) * Math.sin(coef.b * x + coef.c) + coef.d,
+      };
+    case ApproximationEquationType.LOG:
+      return {
+        kind: 'explicit',
+        evaluate: x => {
+          const arg = coef.b * x + coef.c;
+          return arg > 0 ? coef.a * Math.log(arg) + coef.d : NaN;
+        },
+      };
+    case ApproximationEquationType.EXPONENTIAL:
+      return { kind: 'explicit', evaluate: x => coef.a * Math.exp(coef.b * x + coef.c) + coef.d };
+    case ApproximationEquationType.POWER:
+      return { kind: 'explicit', evaluate: x => coef.a * Math.pow(x, coef.b) + coef.c };
+    case ApproximationEquationType.LOGISTIC:
+      return {
+        kind: 'explicit',
+        evaluate: x => evaluateGrowthCurve(x, coef.L, coef.k, coef.x0, coef.d, coef.nu),
+      };
+    case ApproximationEquationType.FOURIER:
+      return { kind: 'explicit', evaluate: x => evaluateFourier(x, coef) };
+    case ApproximationEquationType.SPLINE: {
+      const pieces = result.pieces ?? [];
+      return { kind: 'explicit', evaluate: x => evaluateSpline(pieces, x) };
+    }
+    case ApproximationEquationType.CUSTOM: {
+      if (!result.customExpression) return null;
+      const compiled = math.compile(result.customExpression);
+      const scope: Record<string, number> = { ...coef };
+      return {
+        kind: 'explicit',
+        evaluate: x => {
+          scope.x = x;
+          const value = compiled.evaluate(scope);
+          return typeof value === 'number' ? value : NaN;
+        },
+      };
+    }
     case ApproximationEquationType.ELLIPSE:
-      return solveEllipseApproximation(points, useFractions);
+      return {
+        kind: 'implicit',
+        evaluate: (x, y) => ((x - coef.h) / coef.a) ** 2 + ((y - coef.k) / coef.b) ** 2 - 1,
+      };
+    case ApproximationEquationType.ROTATED_ELLIPSE: {
+      const cos = Math.cos(coef.theta);
+      const sin = Math.sin(coef.theta);
+      return {
+        kind: 'implicit',
+        evaluate: (x, y) => {
+          const u = (x - coef.h) * cos + (y - coef.k) * sin;
+          const v = (y - coef.k) * cos - (x - coef.h) * sin;
+          return (u / coef.a) ** 2 + (v / coef.b) ** 2 - 1;
+        },
+      };
+    }
+    case ExactEquationType.INTERPOLATION:
+    case ApproximationEquationType.POLYNOMIAL: {
+      // Coefficients are named 'a', 'b', 'c', ... from the highest power down
+      const ordered = Object.keys(coef)
+        .sort()
+        .map(name => coef[name]);
+      return {
+        kind: 'explicit',
+        evaluate: x => ordered.reduce((value, c) => value * x + c, 0),
+      };
+    }
     default:
-      return { coefficients: {}, equation: '', desmosEquation: '', error: 'Unknown equation type' };
+      return null;
   }
 }
 
@@ -1205,97 +4970,118 @@ function gcd(a: number, b: number): number {
   return b === 0 ? a : gcd(b, a % b);
 }
 
-function toFraction(decimal: number, tolerance: number = 0.0001): string {
-  if (Math.abs(decimal - Math.round(decimal)) < tolerance) {
-    return Math.round(decimal).toString();
+// Fits and changes of basis leave round-off where the exact value is zero (a 3·10⁻¹³ phase, a
+// -7·10⁻¹⁵ offset), and the display keeps every nonzero term. A term whose contribution is below
+// 1e-12 of the largest one in the same sum is set to exactly zero; scales turn each coefficient
+// into its contribution, e.g. |x|ᵏ over the data for the coefficient of xᵏ
+function snapRoundOff(terms: number[], scales: number[] = terms.map(() => 1)): number[] {
+  const contributions = terms.map((term, i) => Math.abs(term) * scales[i]);
+  const largest = Math.max(...contributions);
+  return terms.map((term, i) => (contributions[i] < 1e-12 * largest ? 0 : term));
+}
+
+// The largest |x| over the data, the scale of a term proportional to x
+function xExtent(points: DataPoint[]): number {
+  return Math.max(...points.map(p => Math.abs(p.x)));
+}
+
+// Fraction with a denominator up to 100 that reproduces the value to within floating-point
+// round-off, or undefined when there is none. Fitted values that are merely close to a simple
+// fraction keep their decimal form, so the equation matches the coefficients it was built from
+function approximateFraction(decimal: number): NumberNode['fraction'] | undefined {
+  const tolerance = 1e-12 * Math.max(1, Math.abs(decimal));
+  const rounded = Math.round(decimal);
+  if (Math.abs(decimal - rounded) <= tolerance && (rounded !== 0 || decimal === 0)) {
+    return { numerator: String(Math.abs(rounded)), denominator: '1', exact: false };
   }
 
-  const sign = decimal < 0 ? '-' : '';
   const absDecimal = Math.abs(decimal);
 
   for (let denominator = 2; denominator <= 100; denominator++) {
     const numerator = Math.round(absDecimal * denominator);
-    if (Math.abs(absDecimal - numerator / denominator) < tolerance) {
+    if (numerator === 0) continue;
+    if (Math.abs(absDecimal - numerator / denominator) <= tolerance) {
       const commonDivisor = gcd(numerator, denominator);
-      const simplifiedNumerator = numerator / commonDivisor;
-      const simplifiedDenominator = denominator / commonDivisor;
-
-      if (simplifiedDenominator === 1) {
-        return sign + simplifiedNumerator.toString();
-      }
-      return sign + simplifiedNumerator + '/' + simplifiedDenominator;
+      return {
+        numerator: String(numerator / commonDivisor),
+        denominator: String(denominator / commonDivisor),
+        exact: false,
+      };
     }
   }
 
-  return formatNumber(decimal);
+  return undefined;
 }
 
-function formatNumber(num: number, precision: number = 4): string {
-  if (Math.abs(num - Math.round(num)) < Math.pow(10, -precision)) {
-    return Math.round(num).toString();
-  }
+// A fitted coefficient, shown as a fraction when fractions are on and the value is one.
+// precision only applies to decimal mode; with fractions on, misses fall back to 4 places
+function coefficientNode(
+  value: number,
+  useFractions: boolean = true,
+  precision: number = 4
+): NumberNode {
+  if (!useFractions) return num(value, { precision });
+  const fraction = approximateFraction(value);
+  return num(value, fraction ? { fraction } : {});
+}
 
-  const rounded = parseFloat(num.toFixed(precision + 2));
-  const str = rounded.toString();
-  if (str.includes('.') && str.split('.')[1].length <= Math.min(3, precision)) {
-    return str;
-  }
+function exactNode(value: math.Fraction): NumberNode {
+  return num(math.number(value), {
+    fraction: { numerator: String(value.n), denominator: String(value.d), exact: true },
+  });
+}
 
-  return num.toFixed(precision);
+function negatedNode(node: NumberNode): NumberNode {
+  return { ...node, value: -node.value };
 }
 
-function formatCoefficient(
-  num: number,
-  showSign: boolean = false,
-  useFractions: boolean = true,
-  precision: number = 4
-): string {
-  if (Math.abs(num) < 1e-10) {
-    return showSign ? '' : '0';
-  }
+// x - h, which prints as plain x when the shift is zero
+function shiftedNode(variable: string, center: NumberNode): Expression {
+  return sum(symbol(variable), negatedNode(center));
+}
 
-  const formatted = useFractions ? toFraction(num) : formatNumber(num, precision);
+// xⁿ as the factors of a polynomial term; none for the constant
+function powerOfX(exponent: number): Expression[] {
+  if (exponent === 0) return [];
+  return [exponent === 1 ? symbol('x') : power(symbol('x'), exponent)];
+}
 
-  if (showSign) {
-    if (num > 0) {
-      return ` + ${formatted}`;
-    } else {
-      return ` - ${Math.abs(num) === num ? formatted : useFractions ? toFraction(Math.abs(num)) : formatNumber(Math.abs(num), precision)}`;
-    }
-  }
+// y = c₀xⁿ + c₁xⁿ⁻¹ + ... + cₙ from the coefficients highest power first
+function polynomialModel(coefficients: NumberNode[]): ModelEquation {
+  const degree = coefficients.length - 1;
+  return equation(
+    symbol('y'),
+    sum(...coefficients.map((coef, i) => product(coef, ...powerOfX(degree - i))))
+  );
+}
 
-  return formatted;
+// The result text and Desmos form of a model
+function renderModel(
+  model: ModelEquation
+): Required<Pick<SolverResult, 'model' | 'equation' | 'desmosEquation'>> {
+  return {
+    model,
+    equation: renderEquation(model, 'text'),
+    desmosEquation: renderEquation(model, 'desmos'),
+  };
 }
 
-function buildPolynomialEquation(
-  terms: Array<{ coef: number; term: string }>,
+// (x-h)²/a² + (y-k)²/b² = 1
+function ellipseModel(
+  h: number,
+  k: number,
+  a: number,
+  b: number,
   useFractions: boolean
-): string {
-  let equation = 'y = ';
-  let equationTerms: string[] = [];
-
-  for (let i = 0; i < terms.length; i++) {
-    const { coef, term } = terms[i];
-    const isFirst = equationTerms.length === 0;
-    const coefficientStr = formatCoefficient(coef, !isFirst, useFractions);
-
-    if (coefficientStr !== '') {
-      if (term === '') {
-        equationTerms.push(coefficientStr);
-      } else if (Math.abs(coef) === 1 && term !== '') {
-        if (isFirst) {
-          equationTerms.push(coef === 1 ? term : `-${term}`);
-        } else {
-          equationTerms.push(coef === 1 ? ` + ${term}` : ` - ${term}`);
-        }
-      } else {
-        equationTerms.push(`${coefficientStr}${term}`);
-      }
-    }
-  }
-
-  equation += equationTerms.length > 0 ? equationTerms.join('') : '0';
-  return equation;
+): ModelEquation {
+  const coef = (value: number) => coefficientNode(value, useFractions, 6);
+  return equation(
+    sum(
+      quotient(power(shiftedNode('x', coef(h)), 2), power(coef(a), 2)),
+      quotient(power(shiftedNode('y', coef(k)), 2), power(coef(b), 2))
+    ),
+    num(1)
+  );
 }
 
 // Ellipse approximation: (x-h)²/a² + (y-k)²/b² = 1 using Levenberg-Marquardt
@@ -1345,52 +5131,9 @@ function solveEllipseApproximation(
 
     const rSquared = calculateEllipseRSquared(points, h, k, a, b);
 
-    // Build equation string in original format
-    let equation = '(x';
-    if (Math.abs(h) > 1e-10) {
-      const hFormatted = formatCoefficient(-h, true, useFractions, 6);
-      if (hFormatted !== '') {
-        equation += hFormatted;
-      }
-    }
-    equation += ')²/';
-    equation += formatCoefficient(a, false, useFractions, 6) + '²';
-    equation += ' + (y';
-    if (Math.abs(k) > 1e-10) {
-      const kFormatted = formatCoefficient(-k, true, useFractions, 6);
-      if (kFormatted !== '') {
-        equation += kFormatted;
-      }
-    }
-    equation += ')²/';
-    equation += formatCoefficient(b, false, useFractions, 6) + '²';
-    equation += ' = 1';
-
-    // Build equation string in LaTeX format for Desmos
-    let desmosEquation = '\\frac{\\left(x';
-    if (Math.abs(h) > 1e-10) {
-      const hFormatted = formatCoefficient(-h, true, useFractions, 6);
-      if (hFormatted !== '') {
-        desmosEquation += hFormatted;
-      }
-    }
-    desmosEquation += '\\right)^{2}}{';
-    desmosEquation += formatCoefficient(a, false, useFractions, 6) + '^{2}}';
-    desmosEquation += ' + \\frac{\\left(y';
-    if (Math.abs(k) > 1e-10) {
-      const kFormatted = formatCoefficient(-k, true, useFractions, 6);
-      if (kFormatted !== '') {
-        desmosEquation += kFormatted;
-      }
-    }
-    desmosEquation += '\\right)^{2}}{';
-    desmosEquation += formatCoefficient(b, false, useFractions, 6) + '^{2}}';
-    desmosEquation += ' = 1';
-
     return {
       coefficients: { h, k, a, b },
-      equation,
-      desmosEquation,
+      ...renderModel(ellipseModel(h, k, a, b, useFractions)),
       rSquared,
     };
   } catch (e) {
@@ -1474,6 +5217,9 @@ function solveEllipseAlgebraic(points: DataPoint[], useFractions: boolean = true
       { h: xMean, k: yMean, a: Math.max(stdX * 2.5, 0.5), b: Math.max(stdY * 2.5, 0.5) },
     ];
 
+    // Residuals and their Jacobian rows are scaled by 1/σ when points carry uncertainties
+    const weights = geometricWeights(points);
+
     for (const init of initStrategies) {
       let { h, k, a, b } = init;
 
@@ -1497,7 +5243,7 @@ function solveEllipseAlgebraic(points: DataPoint[], useFractions: boolean = true
           const a2 = a * a;
           const b2 = b * b;
           const r = (dx * dx) / a2 + (dy * dy) / b2 - 1;
-          residuals.push(r);
+          residuals.push(r * weights[i]);
 
           // Jacobian derivatives with respect to [h, k, a, b]
           const dh = (-2 * dx) / a2;
@@ -1505,7 +5251,7 @@ function solveEllipseAlgebraic(points: DataPoint[], useFractions: boolean = true
           const da = (-2 * (dx * dx)) / (a2 * a);
           const db = (-2 * (dy * dy)) / (b2 * b);
 
-          jacobian.push([dh, dk, da, db]);
+          jacobian.push([dh, dk, da, db].map(value => value * weights[i]));
         }
 
         // Calculate current error
@@ -1555,7 +5301,7 @@ function solveEllipseAlgebraic(points: DataPoint[], useFractions: boolean = true
             const yi = points[i].y;
             const dx = xi - newH;
             const dy = yi - newK;
-            const r = (dx * dx) / (newA * newA) + (dy * dy) / (newB * newB) - 1;
+            const r = ((dx * dx) / (newA * newA) + (dy * dy) / (newB * newB) - 1) * weights[i];
             newError += r * r;
           }
           newError /= n;
@@ -1591,7 +5337,7 @@ function solveEllipseAlgebraic(points: DataPoint[], useFractions: boolean = true
         const yi = points[i].y;
         const dx = xi - h;
         const dy = yi - k;
-        const r = (dx * dx) / (a * a) + (dy * dy) / (b * b) - 1;
+        const r = ((dx * dx) / (a * a) + (dy * dy) / (b * b) - 1) * weights[i];
         finalError += r * r;
       }
       finalError = Math.sqrt(finalError / n); // RMS error
@@ -1627,66 +5373,589 @@ function solveEllipseAlgebraic(points: DataPoint[], useFractions: boolean = true
     }
 
     // Calculate R-squared for the best fit
-    const rSquared = calculateEllipseRSquared(points, bestH, bestK, bestA, bestB);
-
-    // Build equation string in original format
-    let equation = '(x';
-    if (Math.abs(bestH) > 1e-10) {
-      const hFormatted = formatCoefficient(-bestH, true, useFractions, 6);
-      if (hFormatted !== '') {
-        equation += hFormatted;
-      }
+    const [h, k, a, b] = snapRoundOff([bestH, bestK, bestA, bestB]);
+    const rSquared = calculateEllipseRSquared(points, h, k, a, b);
+
+    return {
+      coefficients: { h, k, a, b },
+      ...renderModel(ellipseModel(h, k, a, b, useFractions)),
+      rSquared,
+    };
+  } catch (e) {
+    return {
+      coefficients: {},
+      equation: '',
+      desmosEquation: '',
+      error: `Unable to fit ellipse: ${e instanceof Error ? e.message : 'points may not form a valid ellipse'}`,
+    };
+  }
+}
+
+// Rotated ellipse approximation: ((x-h)cos θ + (y-k)sin θ)²/a² + ((y-k)cos θ - (x-h)sin θ)²/b² = 1
+// Direct least-squares fit (Fitzgibbon, in the Halir-Flusser form) refined by geometric distance
+function solveRotatedEllipse(points: DataPoint[], useFractions: boolean = true): SolverResult {
+  if (points.length < 5) {
+    return {
+      coefficients: {},
+      equation: '',
+      desmosEquation: '',
+      error: 'Need at least 5 points for rotated ellipse approximation',
+    };
+  }
+
+  try {
+    const initial = fitEllipseDirect(points);
+    if (!initial) {
+      return {
+        coefficients: {},
+        equation: '',
+        desmosEquation: '',
+        error: 'Unable to fit an ellipse - points may be collinear or not lie on an ellipse',
+      };
     }
-    equation += ')²/';
-    equation += formatCoefficient(bestA, false, useFractions, 6) + '²';
-    equation += ' + (y';
-    if (Math.abs(bestK) > 1e-10) {
-      const kFormatted = formatCoefficient(-bestK, true, useFractions, 6);
-      if (kFormatted !== '') {
-        equation += kFormatted;
+
+    let best = initial;
+    let bestError = ellipseGeometricError(points, best);
+
+    // The direct fit ignores σ, so under heavily unequal weights (a robust refit) it can sit
+    // near the wrong ellipse. The σ-weighted Sampson conic fit is a second starting point
+    const { vector } = fitConicNullSpace(points);
+    const weightedStart = ellipseFromConic(vector);
+    const starts = weightedStart ? [initial, weightedStart] : [initial];
+
+    // Geometric refinement: minimize the signed distances from every point to the ellipse.
+    // The point index is used as the LM "x" so each residual can look up its point.
+    const indices = points.map((_, i) => i);
+    const zeros = points.map(() => 0);
+    const weights = geometricWeights(points);
+    const distanceFunction =
+      ([h, k, a, b, theta]: number[]) =>
+      (i: number) =>
+        signedDistanceToRotatedEllipse(points[i], { h, k, a, b, theta }) * weights[i];
+
+    for (const start of starts) {
+      try {
+        const result = levenbergMarquardt({ x: indices, y: zeros }, distanceFunction, {
+          initialValues: [start.h, start.k, start.a, start.b, start.theta],
+          damping: 1.0,
+          maxIterations: 200,
+          errorTolerance: 1e-12,
+          gradientDifference: 1e-7,
+        });
+
+        const [h, k, a, b, theta] = result.parameterValues;
+        const refined = canonicalEllipse({ h, k, a, b, theta });
+        const refinedError = refined ? ellipseGeometricError(points, refined) : Infinity;
+        if (refined && refinedError < bestError) {
+          best = refined;
+          bestError = refinedError;
+        }
+      } catch (e) {
+        // Keep the best fit so far if this refinement fails
       }
     }
-    equation += ')²/';
-    equation += formatCoefficient(bestB, false, useFractions, 6) + '²';
-    equation += ' = 1';
 
-    // Build equation string in LaTeX format for Desmos
-    let desmosEquation = '\\frac{\\left(x';
-    if (Math.abs(bestH) > 1e-10) {
-      const hFormatted = formatCoefficient(-bestH, true, useFractions, 6);
-      if (hFormatted !== '') {
-        desmosEquation += hFormatted;
+    // The center and axes are lengths; the rotation is compared with half a turn
+    const [h, k, a, b] = snapRoundOff([best.h, best.k, best.a, best.b]);
+    const [, theta] = snapRoundOff([Math.PI, best.theta]);
+    const fitted = { h, k, a, b, theta };
+    const rSquared = calculateEllipseRSquared(points, h, k, a, b, theta);
+    const conic = normalizeConicCoefficients(rotatedEllipseToConic(fitted));
+    const rendered = renderModel(rotatedEllipseModel(fitted, useFractions));
+    const generalModel = conicModel(conic, useFractions);
+
+    return {
+      coefficients: { h, k, a, b, theta },
+      ...rendered,
+      equation: `${rendered.equation}\nGeneral form: ${renderEquation(generalModel, 'text')}`,
+      generalModel,
+      rSquared,
+      conicAnalysis: analyzeConic(conic),
+    };
+  } catch (e) {
+    return {
+      coefficients: {},
+      equation: '',
+      desmosEquation: '',
+      error: 'Unable to fit rotated ellipse to the given points',
+    };
+  }
+}
+
+// ((x-h)cos θ + (y-k)sin θ)²/a² + ((y-k)cos θ - (x-h)sin θ)²/b² = 1, with θ shown in degrees
+function rotatedEllipseModel(
+  { h, k, a, b, theta }: RotatedEllipse,
+  useFractions: boolean
+): ModelEquation {
+  const coef = (value: number) => coefficientNode(value, useFractions, 6);
+  const x = shiftedNode('x', coef(h));
+  const y = shiftedNode('y', coef(k));
+  const cos = call('cos', num(theta, { degrees: true }));
+  const sin = call('sin', num(theta, { degrees: true }));
+  const u = sum(product(x, cos), product(y, sin));
+  const v = sum(product(y, cos), negate(product(x, sin)));
+  return equation(
+    sum(quotient(power(u, 2), power(coef(a), 2)), quotient(power(v, 2), power(coef(b), 2))),
+    num(1)
+  );
+}
+
+interface RotatedEllipse {
+  h: number;
+  k: number;
+  a: number;
+  b: number;
+  theta: number;
+}
+
+// Ellipse-specific direct least squares: minimize the algebraic error subject to 4AC - B² = 1
+function fitEllipseDirect(points: DataPoint[]): RotatedEllipse | null {
+  const transform = computeNormalization(points);
+  const normalized = points.map(p => [
+    transform.scale * (p.x - transform.xMean),
+    transform.scale * (p.y - transform.yMean),
+  ]);
+
+  // Split the design matrix into quadratic [x², xy, y²] and linear [x, y, 1] parts
+  const S1 = [0, 1, 2].map(() => [0, 0, 0]);
+  const S2 = [0, 1, 2].map(() => [0, 0, 0]);
+  const S3 = [0, 1, 2].map(() => [0, 0, 0]);
+  for (const [x, y] of normalized) {
+    const quadratic = [x * x, x * y, y * y];
+    const linear = [x, y, 1];
+    for (let i = 0; i < 3; i++) {
+      for (let j = 0; j < 3; j++) {
+        S1[i][j] += quadratic[i] * quadratic[j];
+        S2[i][j] += quadratic[i] * linear[j];
+        S3[i][j] += linear[i] * linear[j];
       }
     }
-    desmosEquation += '\\right)^{2}}{';
-    desmosEquation += formatCoefficient(bestA, false, useFractions, 6) + '^{2}}';
-    desmosEquation += ' + \\frac{\\left(y';
-    if (Math.abs(bestK) > 1e-10) {
-      const kFormatted = formatCoefficient(-bestK, true, useFractions, 6);
-      if (kFormatted !== '') {
-        desmosEquation += kFormatted;
+  }
+
+  // Linear part in terms of the quadratic part: a2 = T·a1 with T = -S3⁻¹·S2ᵀ
+  const S3Inverse = math.inv(S3) as number[][];
+  const S2Transposed = [0, 1, 2].map(i => [0, 1, 2].map(j => S2[j][i]));
+  const T = multiplyMatrices(S3Inverse, S2Transposed).map(row => row.map(value => -value));
+
+  // Reduced scatter matrix premultiplied by the inverse of the constraint matrix
+  const S2T = multiplyMatrices(S2, T);
+  const M = S1.map((row, i) => row.map((value, j) => value + S2T[i][j]));
+  const reduced = [
+    M[2].map(value => value / 2),
+    M[1].map(value => -value),
+    M[0].map(value => value / 2),
+  ];
+
+  let quadratic: number[] | null = null;
+  for (const eigenvalue of eigenvalues3x3(reduced)) {
+    const vector = nullVector3x3(
+      reduced.map((row, i) => row.map((value, j) => (i === j ? value - eigenvalue : value)))
+    );
+    if (vector && 4 * vector[0] * vector[2] - vector[1] * vector[1] > 0) {
+      quadratic = vector;
+      break;
+    }
+  }
+
+  if (!quadratic) {
+    return null;
+  }
+
+  const linear = T.map(
+    row => row[0] * quadratic[0] + row[1] * quadratic[1] + row[2] * quadratic[2]
+  );
+  return ellipseFromConic(denormalizeConic([...quadratic, ...linear], transform));
+}
+
+// Center, semi-axes and rotation of the conic [A, B, C, D, E, F], or null unless it is a real
+// ellipse
+function ellipseFromConic([A, B, C, D, E, F]: number[]): RotatedEllipse | null {
+  const analysis = analyzeConic({ A, B, C, D, E, F });
+
+  if (
+    (analysis.kind !== 'ellipse' && analysis.kind !== 'circle') ||
+    !analysis.center ||
+    analysis.semiMajorAxis === undefined ||
+    analysis.semiMinorAxis === undefined
+  ) {
+    return null;
+  }
+
+  return {
+    h: analysis.center.x,
+    k: analysis.center.y,
+    a: analysis.semiMajorAxis,
+    b: analysis.semiMinorAxis,
+    theta: analysis.rotation ?? 0,
+  };
+}
+
+function multiplyMatrices(A: number[][], B: number[][]): number[][] {
+  return A.map(row => B[0].map((_, j) => row.reduce((sum, value, k) => sum + value * B[k][j], 0)));
+}
+
+// Real eigenvalues of a 3×3 matrix from its characteristic polynomial
+function eigenvalues3x3(M: number[][]): number[] {
+  const trace = M[0][0] + M[1][1] + M[2][2];
+  const minors =
+    M[0][0] * M[1][1] -
+    M[0][1] * M[1][0] +
+    M[0][0] * M[2][2] -
+    M[0][2] * M[2][0] +
+    M[1][1] * M[2][2] -
+    M[1][2] * M[2][1];
+  const determinant = math.det(M);
+
+  return solveCubicRealRoots(-trace, minors, -determinant);
+}
+
+// Real roots of t³ + b·t² + c·t + d = 0
+function solveCubicRealRoots(b: number, c: number, d: number): number[] {
+  const p = c - (b * b) / 3;
+  const q = (2 * b * b * b) / 27 - (b * c) / 3 + d;
+  const shift = -b / 3;
+  const discriminant = (q * q) / 4 + (p * p * p) / 27;
+
+  if (discriminant > 0) {
+    const root = Math.sqrt(discriminant);
+    return [Math.cbrt(-q / 2 + root) + Math.cbrt(-q / 2 - root) + shift];
+  }
+
+  if (p === 0) {
+    return [shift];
+  }
+
+  // Three real roots: trigonometric form
+  const radius = 2 * Math.sqrt(-p / 3);
+  const angle = Math.acos(Math.max(-1, Math.min(1, ((3 * q) / (2 * p)) * Math.sqrt(-3 / p)))) / 3;
+  return [0, 1, 2].map(i => radius * Math.cos(angle - (2 * Math.PI * i) / 3) + shift);
+}
+
+// Null vector of a (near) singular 3×3 matrix: the largest cross product of two of its rows
+function nullVector3x3(M: number[][]): number[] | null {
+  const cross = (u: number[], v: number[]) => [
+    u[1] * v[2] - u[2] * v[1],
+    u[2] * v[0] - u[0] * v[2],
+    u[0] * v[1] - u[1] * v[0],
+  ];
+
+  const candidates = [cross(M[0], M[1]), cross(M[0], M[2]), cross(M[1], M[2])];
+  const norms = candidates.map(v => Math.hypot(...v));
+  const best = norms.indexOf(Math.max(...norms));
+
+  return norms[best] > 1e-300 ? candidates[best].map(value => value / norms[best]) : null;
+}
+
+// Orient an ellipse so that a is the semi-major axis and θ lies in (-π/2, π/2]
+function canonicalEllipse(ellipse: RotatedEllipse): RotatedEllipse | null {
+  let { a, b, theta } = ellipse;
+  a = Math.abs(a);
+  b = Math.abs(b);
+
+  if (!isFinite(a) || !isFinite(b) || a < 1e-12 || b < 1e-12) {
+    return null;
+  }
+  if (b > a) {
+    [a, b] = [b, a];
+    theta += Math.PI / 2;
+  }
+
+  return { h: ellipse.h, k: ellipse.k, a, b, theta: normalizeAxisAngle(theta) };
+}
+
+// Distance from a point to the ellipse boundary, positive outside and negative inside
+function signedDistanceToRotatedEllipse(point: DataPoint, ellipse: RotatedEllipse): number {
+  const { h, k, a, b, theta } = ellipse;
+  const cos = Math.cos(theta);
+  const sin = Math.sin(theta);
+  const u = (point.x - h) * cos + (point.y - k) * sin;
+  const v = -(point.x - h) * sin + (point.y - k) * cos;
+
+  const distance = distanceToEllipse(u, v, 0, 0, Math.abs(a), Math.abs(b));
+  return (u / a) ** 2 + (v / b) ** 2 < 1 ? -distance : distance;
+}
+
+function ellipseGeometricError(points: DataPoint[], ellipse: RotatedEllipse): number {
+  const weights = geometricWeights(points);
+  return points.reduce(
+    (sum, p, i) => sum + (signedDistanceToRotatedEllipse(p, ellipse) * weights[i]) ** 2,
+    0
+  );
+}
+
+// General conic coefficients [A, B, C, D, E, F] of a rotated ellipse
+function rotatedEllipseToConic({ h, k, a, b, theta }: RotatedEllipse): number[] {
+  const cos = Math.cos(theta);
+  const sin = Math.sin(theta);
+  const A = (cos * cos) / (a * a) + (sin * sin) / (b * b);
+  const B = 2 * cos * sin * (1 / (a * a) - 1 / (b * b));
+  const C = (sin * sin) / (a * a) + (cos * cos) / (b * b);
+
+  return [A, B, C, -2 * A * h - B * k, -B * h - 2 * C * k, A * h * h + B * h * k + C * k * k - 1];
+}
+
+// Circle approximation: (x-h)² + (y-k)² = r² over any number of points
+// Algebraic (Kåsa) fit for initialization, refined by Levenberg-Marquardt on the radial distances
+function solveCircleApproximation(points: DataPoint[], useFractions: boolean = true): SolverResult {
+  if (points.length < 3) {
+    return {
+      coefficients: {},
+      equation: '',
+      desmosEquation: '',
+      error: 'Need at least 3 points for circle approximation',
+    };
+  }
+
+  try {
+    const initial = fitCircleAlgebraic(points);
+    if (!initial) {
+      return {
+        coefficients: {},
+        equation: '',
+        desmosEquation: '',
+        error: 'Points do not form a valid circle - points may be collinear',
+      };
+    }
+
+    const weights = geometricWeights(points);
+    const radialError = ([h, k, r]: number[]) =>
+      points.reduce((sum, p, i) => sum + ((Math.hypot(p.x - h, p.y - k) - r) * weights[i]) ** 2, 0);
+
+    let best = initial;
+    let bestError = radialError(best);
+
+    // Geometric refinement: the point index is used as the LM "x" so each residual can look
+    // up its point, and every residual is the signed radial distance to the circle
+    try {
+      const indices = points.map((_, i) => i);
+      const zeros = points.map(() => 0);
+      const radialDistance =
+        ([h, k, r]: number[]) =>
+        (i: number) =>
+          (Math.hypot(points[i].x - h, points[i].y - k) - r) * weights[i];
+
+      const result = levenbergMarquardt({ x: indices, y: zeros }, radialDistance, {
+        initialValues: initial,
+        damping: 1.0,
+        maxIterations: 200,
+        errorTolerance: 1e-12,
+        gradientDifference: 1e-7,
+      });
+
+      const refined = [
+        result.parameterValues[0],
+        result.parameterValues[1],
+        Math.abs(result.parameterValues[2]),
+      ];
+      const refinedError = radialError(refined);
+      if (refined.every(isFinite) && refinedError < bestError) {
+        best = refined;
+        bestError = refinedError;
       }
+    } catch (e) {
+      // Keep the algebraic fit if the refinement fails
+    }
+
+    const [h, k, r] = snapRoundOff(best);
+    const coefficients = { h, k, r };
+    const radialSquares = points.reduce(
+      (sum, p) => sum + (Math.hypot(p.x - h, p.y - k) - r) ** 2,
+      0
+    );
+
+    if (!validateCoefficients(coefficients) || r <= 0) {
+      return {
+        coefficients: {},
+        equation: '',
+        desmosEquation: '',
+        error: 'Unable to fit circle - invalid coefficients',
+      };
     }
-    desmosEquation += '\\right)^{2}}{';
-    desmosEquation += formatCoefficient(bestB, false, useFractions, 6) + '^{2}}';
-    desmosEquation += ' = 1';
 
     return {
-      coefficients: { h: bestH, k: bestK, a: bestA, b: bestB },
-      equation,
-      desmosEquation,
-      rSquared,
+      coefficients,
+      ...renderModel(circleModel(h, k, r, useFractions)),
+      rSquared: calculateEllipseRSquared(points, h, k, r, r),
+      rmsResidual: Math.sqrt(radialSquares / points.length),
     };
   } catch (e) {
     return {
       coefficients: {},
       equation: '',
       desmosEquation: '',
-      error: `Unable to fit ellipse: ${e instanceof Error ? e.message : 'points may not form a valid ellipse'}`,
+      error: 'Unable to fit circle to the given points',
     };
   }
 }
 
+// Kåsa fit: linear least squares for x² + y² + Dx + Ey + F = 0 in normalized coordinates
+function fitCircleAlgebraic(points: DataPoint[]): number[] | null {
+  const transform = computeNormalization(points);
+  const normalized = points.map(p => [
+    transform.scale * (p.x - transform.xMean),
+    transform.scale * (p.y - transform.yMean),
+  ]);
+
+  let solution: number[];
+  try {
+    solution = solveLeastSquares(
+      normalized.map(([x, y]) => [x, y, 1]),
+      normalized.map(([x, y]) => -(x * x + y * y))
+    );
+  } catch (e) {
+    // Rank deficient: the points are collinear
+    return null;
+  }
+
+  const [D, E, F] = solution;
+  const radiusSquared = (D * D + E * E) / 4 - F;
+
+  if (!(radiusSquared > 0)) {
+    return null;
+  }
+
+  return [
+    transform.xMean - D / 2 / transform.scale,
+    transform.yMean - E / 2 / transform.scale,
+    Math.sqrt(radiusSquared) / transform.scale,
+  ];
+}
+
+// Least squares solution of an overdetermined system A·x ≈ b using Householder QR
+function solveLeastSquares(A: number[][], b: number[]): number[] {
+  const m = A.length;
+  const n = A[0].length;
+
+  if (m < n) {
+    throw new Error('Not enough equations for least squares system');
+  }
+
+  const R = A.map(row => [...row]);
+  const qtb = [...b];
+
+  for (let j = 0; j < n; j++) {
+    let norm = 0;
+    for (let i = j; i < m; i++) {
+      norm += R[i][j] * R[i][j];
+    }
+    norm = Math.sqrt(norm);
+
+    if (norm < 1e-300) {
+      throw new Error('Rank-deficient least squares system');
+    }
+
+    // Householder reflection zeroing column j below the diagonal
+    const alpha = R[j][j] > 0 ? -norm : norm;
+    const v = new Array(m).fill(0);
+    v[j] = R[j][j] - alpha;
+    for (let i = j + 1; i < m; i++) {
+      v[i] = R[i][j];
+    }
+    const vNorm2 = v.reduce((sum, vi) => sum + vi * vi, 0);
+
+    for (let k = j; k < n; k++) {
+      let dot = 0;
+      for (let i = j; i < m; i++) {
+        dot += v[i] * R[i][k];
+      }
+      const factor = (2 * dot) / vNorm2;
+      for (let i = j; i < m; i++) {
+        R[i][k] -= factor * v[i];
+      }
+    }
+
+    let dot = 0;
+    for (let i = j; i < m; i++) {
+      dot += v[i] * qtb[i];
+    }
+    const factor = (2 * dot) / vNorm2;
+    for (let i = j; i < m; i++) {
+      qtb[i] -= factor * v[i];
+    }
+  }
+
+  const maxDiagonal = Math.max(...R.slice(0, n).map((row, i) => Math.abs(row[i])));
+  const x = new Array(n).fill(0);
+  for (let i = n - 1; i >= 0; i--) {
+    if (Math.abs(R[i][i]) <= maxDiagonal * 1e-12) {
+      throw new Error('Rank-deficient least squares system');
+    }
+    x[i] = qtb[i];
+    for (let j = i + 1; j < n; j++) {
+      x[i] -= R[i][j] * x[j];
+    }
+    x[i] /= R[i][i];
+  }
+
+  return x;
+}
+
+// Singular values (ascending) with their right singular vectors, via one-sided Jacobi rotations
+function singularValueDecomposition(M: number[][]): Array<{ value: number; vector: number[] }> {
+  const m = M.length;
+  const n = M[0].length;
+  const U = M.map(row => [...row]);
+  const V: number[][] = Array.from({ length: n }, (_, i) =>
+    Array.from({ length: n }, (_, j) => (i === j ? 1 : 0))
+  );
+
+  for (let sweep = 0; sweep < 60; sweep++) {
+    let rotated = false;
+
+    for (let p = 0; p < n - 1; p++) {
+      for (let q = p + 1; q < n; q++) {
+        let alpha = 0;
+        let beta = 0;
+        let gamma = 0;
+        for (let i = 0; i < m; i++) {
+          alpha += U[i][p] * U[i][p];
+          beta += U[i][q] * U[i][q];
+          gamma += U[i][p] * U[i][q];
+        }
+
+        if (Math.abs(gamma) <= 1e-15 * Math.sqrt(alpha * beta) || gamma === 0) continue;
+        rotated = true;
+
+        // Rotation that makes columns p and q orthogonal
+        const zeta = (beta - alpha) / (2 * gamma);
+        const t = Math.sign(zeta || 1) / (Math.abs(zeta) + Math.sqrt(1 + zeta * zeta));
+        const c = 1 / Math.sqrt(1 + t * t);
+        const sn = c * t;
+
+        for (let i = 0; i < m; i++) {
+          const up = U[i][p];
+          const uq = U[i][q];
+          U[i][p] = c * up - sn * uq;
+          U[i][q] = sn * up + c * uq;
+        }
+        for (let i = 0; i < n; i++) {
+          const vp = V[i][p];
+          const vq = V[i][q];
+          V[i][p] = c * vp - sn * vq;
+          V[i][q] = sn * vp + c * vq;
+        }
+      }
+    }
+
+    if (!rotated) break;
+  }
+
+  const result = Array.from({ length: n }, (_, j) => ({
+    value: Math.sqrt(U.reduce((sum, row) => sum + row[j] * row[j], 0)),
+    vector: V.map(row => row[j]),
+  }));
+
+  return result.sort((a, b) => a.value - b.value);
+}
+
+function binomial(n: number, k: number): number {
+  let result = 1;
+  for (let i = 1; i <= k; i++) {
+    result = (result * (n - k + i)) / i;
+  }
+  return result;
+}
+
 // Helper function to solve 4x4 linear system using Gaussian elimination with partial pivoting
 function solveLinearSystem4x4(A: number[][], b: number[]): number[] {
   const n = 4;
@@ -1739,7 +6008,8 @@ function calculateEllipseRSquared(
   h: number,
   k: number,
   a: number,
-  b: number
+  b: number,
+  theta: number = 0
 ): number {
   try {
     // For ellipse fitting, R² measures the proportion of variance explained by the ellipse model
@@ -1764,7 +6034,10 @@ function calculateEllipseRSquared(
     let rss = 0;
     for (const point of points) {
       // Calculate distance from point to ellipse boundary
-      const distance = distanceToEllipse(point.x, point.y, h, k, a, b);
+      const distance =
+        theta === 0
+          ? distanceToEllipse(point.x, point.y, h, k, a, b)
+          : signedDistanceToRotatedEllipse(point, { h, k, a, b, theta });
       rss += distance * distance;
     }
 
@@ -1784,6 +6057,34 @@ function calculateEllipseRSquared(
   }
 }
 
+function calculateConicRSquared(points: DataPoint[], coefficients: Record<string, number>): number {
+  const n = points.length;
+  if (n === 0) return 0;
+
+  const { A, B, C, D, E, F } = coefficients;
+  const xMean = points.reduce((sum, p) => sum + p.x, 0) / n;
+  const yMean = points.reduce((sum, p) => sum + p.y, 0) / n;
+
+  let tss = 0;
+  let rss = 0;
+  for (const { x, y } of points) {
+    tss += (x - xMean) ** 2 + (y - yMean) ** 2;
+
+    // Sampson distance: first-order approximation of the geometric distance to the curve
+    const value = A * x * x + B * x * y + C * y * y + D * x + E * y + F;
+    const gradX = 2 * A * x + B * y + D;
+    const gradY = B * x + 2 * C * y + E;
+    const gradient2 = gradX * gradX + gradY * gradY;
+    rss += gradient2 > 1e-300 ? (value * value) / gradient2 : 0;
+  }
+
+  if (tss === 0) {
+    return rss === 0 ? 1 : 0;
+  }
+
+  return Math.max(0, Math.min(1, 1 - rss / tss));
+}
+
 // Helper function to calculate distance from a point to an ellipse boundary
 function distanceToEllipse(
   px: number,